@@ -5,18 +5,17 @@ import Layout from "../components/Layout";
 import { db } from "../lib/db";
 import { offlineSearch } from "../lib/search";
 import { nanoid } from "../lib/utils";
-import type { Answer } from "../src/types/answer";
+import type { Answer, SupportLink } from "../src/types/answer";
 import type { ChatMessage, ChatState } from "../src/types/chat";
+import type { Route } from "../src/lib/triage";
+import { EVENT_STREAM, readAskStream } from "../src/lib/askStream";
+import { formatValue, valueLabel } from "../src/lib/calculators/quantity";
+import { VERDICT_LABEL } from "../src/lib/calculators/regulations";
+import { ISSUE_TYPES } from "../src/lib/flows/issueTypes";
+import { SCOPES, SCOPE_LABEL, type ScopeMode } from "../src/lib/sourceTypes";
 
-type ScopeMode = "law_only" | "law_plus_utility" | "all";
 type ConversationItem = { q: string; createdAt?: string };
-const ISSUE_TYPES = [
-  "הארקה / לולאת תקלה",
-  "פחת (RCD)",
-  "קצר / מפסקים קופצים",
-  "חימום כבלים / עומס",
-  "לוח חשמל / זיהוי פאזה",
-];
+type Draft = Pick<Partial<Answer>, "bottomLine" | "steps" | "sources">;
 
 async function askOnline(
   question: string,
@@ -26,11 +25,13 @@ async function askOnline(
   modeHint: "auto" | "calc" | "flow" | "rag",
   conversationId: string,
   messages: ChatMessage[],
-  chatState: ChatState
+  chatState: ChatState,
+  forceRoute: Route | undefined,
+  onDraft: (draft: Draft) => void
 ) {
   const r = await fetch("/api/ask", {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", Accept: `${EVENT_STREAM}, application/json` },
     body: JSON.stringify({
       question,
       scope,
@@ -40,6 +41,7 @@ async function askOnline(
       conversationId,
       messages,
       chatState,
+      forceRoute,
     }),
   });
 
@@ -48,12 +50,42 @@ async function askOnline(
     throw new Error(msg || "Online request failed");
   }
 
-  return (await r.json()) as Answer;
+  // Answers that need no retrieval come back as plain JSON even to a streaming request.
+  if (!r.headers.get("Content-Type")?.includes(EVENT_STREAM) || !r.body) {
+    return (await r.json()) as Answer;
+  }
+  let draft: Draft = {};
+  for await (const e of readAskStream(r.body)) {
+    if (e.event === "answer") return e.data;
+    if (e.event === "error") throw new Error(e.data.error);
+    draft = { ...draft, ...(e.event === "sources" ? { sources: e.data.sources } : e.data) };
+    onDraft(draft);
+  }
+  throw new Error("Online request ended without an answer");
+}
+
+// Which listed source backs a statement; hovering shows the passage it rests on.
+function SupportMark({ link }: { link?: SupportLink | null }) {
+  if (link === undefined) return null;
+  if (!link) {
+    return (
+      <span className="small" style={{ opacity: 0.7 }} title="לא נמצא קטע במקורות שמבסס טענה זו">
+        {" "}
+        [ללא מקור]
+      </span>
+    );
+  }
+  return (
+    <a className="small" href={`#source-${link.source + 1}`} title={link.excerpt} style={{ marginInlineStart: 4 }}>
+      [{link.source + 1}]
+    </a>
+  );
 }
 
 export default function HomePage() {
   const [q, setQ] = useState("");
   const [answer, setAnswer] = useState<Answer | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
   const [busy, setBusy] = useState(false);
   const [scope, setScope] = useState<ScopeMode>("law_only");
   const [issueType, setIssueType] = useState(ISSUE_TYPES[0]);
@@ -76,12 +108,15 @@ export default function HomePage() {
     []
   );
 
-  async function ask() {
-    const question = q.trim();
+  // `pick` re-asks a question on the route the user chose from answer.choices, or in a wider scope.
+  async function ask(pick?: { question: string; route?: Route; scope?: ScopeMode }) {
+    const question = pick ? pick.question : q.trim();
     if (!question) return;
+    if (pick?.scope) setScope(pick.scope);
 
     setBusy(true);
     setAnswer(null);
+    setDraft(null);
     const userMsg: ChatMessage = {
       role: "user",
       content: question,
@@ -96,13 +131,15 @@ export default function HomePage() {
       if (typeof window !== "undefined" && navigator.onLine) {
         const data = await askOnline(
           question,
-          scope,
+          pick?.scope ?? scope,
           conversationHistory,
           issueType,
           modeHint,
           conversationId,
           nextMessages,
-          chatState
+          chatState,
+          pick?.route,
+          setDraft
         );
         setAnswer(data);
         if (data.chatState) setChatState(data.chatState);
@@ -195,9 +232,22 @@ export default function HomePage() {
       );
     } finally {
       setBusy(false);
+      setDraft(null);
     }
   }
 
+  // While a streamed answer is being generated, show what has arrived so far.
+  const shown: Answer | null =
+    answer ??
+    (draft && {
+      kind: "rag",
+      title: "חוק ותקנות",
+      bottomLine: draft.bottomLine || "מנסח תשובה מהמקורות...",
+      steps: draft.steps || [],
+      sources: draft.sources,
+      confidence: "low",
+    });
+
   return (
     <Layout>
       <h1 className="h1">AI לחשמלאים</h1>
@@ -213,7 +263,7 @@ export default function HomePage() {
         />
 
         <div style={{ marginTop: 10 }} className="row">
-          <button className="btn" onClick={ask} disabled={busy}>
+          <button className="btn" onClick={() => ask()} disabled={busy}>
             {busy ? "מחפש..." : "שאל"}
           </button>
 
@@ -223,9 +273,11 @@ export default function HomePage() {
             value={scope}
             onChange={(e) => setScope(e.target.value as ScopeMode)}
           >
-            <option value="law_only">מיקוד: חוק/תקנות בלבד</option>
-            <option value="law_plus_utility">מיקוד: חוק + המעגל</option>
-            <option value="all">מיקוד: כל המקורות</option>
+            {SCOPES.map((s) => (
+              <option key={s} value={s}>
+                מיקוד: {SCOPE_LABEL[s]}
+              </option>
+            ))}
           </select>
           <select
             className="input"
@@ -309,50 +361,84 @@ export default function HomePage() {
           </div>
         )}
 
-        {answer && (
+        {shown && (
           <>
             <hr />
             <div className="h2">
-              תשובה{answer.title ? ` — ${answer.title}` : ""}
+              תשובה{shown.title ? ` — ${shown.title}` : ""}
             </div>
             <div className="space-y-3" style={{ marginBottom: 12 }}>
               <div className="h2" style={{ fontSize: 20 }}>
-                {answer.bottomLine}
+                {shown.bottomLine}
+                <SupportMark link={shown.support?.bottomLine} />
               </div>
 
-              {answer.steps?.length > 0 && (
+              {shown.compliance && (
+                <div>
+                  <span className="badge">בדיקת תקנות: {VERDICT_LABEL[shown.compliance.verdict]}</span>
+                  {shown.compliance.checks.length > 0 && (
+                    <ul className="small" style={{ margin: "4px 0 0", paddingInlineStart: 20 }}>
+                      {shown.compliance.checks.map((c, i) => (
+                        <li key={i}>
+                          {c.label}: {c.actual ?? "לא ידוע"} ({c.limit}) — {VERDICT_LABEL[c.verdict]} · {c.source.section}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {shown.steps?.length > 0 && (
                 <div>
                   <div className="small" style={{ fontWeight: 700 }}>
                     צעדים:
                   </div>
                   <ol style={{ margin: 0, paddingInlineStart: 20 }}>
-                    {answer.steps.map((s, i) => (
-                      <li key={i}>{s}</li>
+                    {shown.steps.map((s, i) => (
+                      <li key={i}>
+                        {s}
+                        <SupportMark link={shown.support?.steps[i]} />
+                      </li>
                     ))}
                   </ol>
                 </div>
               )}
 
-              {(answer.cautions?.length ?? 0) > 0 && (
+              {shown.values && Object.keys(shown.values).length > 0 && (
+                <div>
+                  <div className="small" style={{ fontWeight: 700 }}>
+                    ערכים:
+                  </div>
+                  <ul style={{ margin: 0, paddingInlineStart: 20 }}>
+                    {Object.entries(shown.values).map(([k, v]) => (
+                      <li key={k}>
+                        {valueLabel(k)}: {formatValue(k, v)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {(shown.cautions?.length ?? 0) > 0 && (
                 <div>
                   <div className="small" style={{ fontWeight: 700 }}>
                     זהירות:
                   </div>
                   <ul style={{ margin: 0, paddingInlineStart: 20 }}>
-                    {(answer.cautions || []).map((c, i) => (
+                    {(shown.cautions || []).map((c, i) => (
                       <li key={i}>{c}</li>
                     ))}
                   </ul>
                 </div>
               )}
 
-              {answer.requiredInfo?.length ? (
+              {shown.requiredInfo?.length ? (
                 <div>
                   <div className="small" style={{ fontWeight: 700 }}>
                     חסר מידע כדי לקבוע:
                   </div>
                   <ul style={{ margin: 0, paddingInlineStart: 20 }}>
-                    {answer.requiredInfo.map((r, i) => (
+                    {shown.requiredInfo.map((r, i) => (
                       <li key={i}>{r}</li>
                     ))}
                   </ul>
@@ -360,16 +446,63 @@ export default function HomePage() {
               ) : null}
             </div>
 
-            {answer.followUpQuestion ? (
+            {shown.choices?.length ? (
+              <div className="row" style={{ marginTop: 10 }}>
+                {shown.choices.map((c) => (
+                  <button
+                    key={c.route}
+                    className="btn"
+                    disabled={busy}
+                    onClick={() => {
+                      const last = [...messages].reverse().find((m) => m.role === "user");
+                      if (last) ask({ question: last.content, route: c.route });
+                    }}
+                  >
+                    {c.label}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+
+            {shown.widerScope ? (
+              <div className="row" style={{ marginTop: 10 }}>
+                <button
+                  className="btn"
+                  disabled={busy}
+                  onClick={() => {
+                    const last = [...messages].reverse().find((m) => m.role === "user");
+                    if (last) ask({ question: last.content, scope: shown.widerScope });
+                  }}
+                >
+                  חפש במיקוד: {SCOPE_LABEL[shown.widerScope]}
+                </button>
+              </div>
+            ) : null}
+
+            {shown.attachment ? (
+              <div className="row" style={{ marginTop: 10 }}>
+                <a
+                  className="btn"
+                  download={shown.attachment.filename}
+                  href={`data:${shown.attachment.mimeType};charset=utf-8,${encodeURIComponent(
+                    shown.attachment.content
+                  )}`}
+                >
+                  ייצוא לקובץ ({shown.attachment.filename})
+                </a>
+              </div>
+            ) : null}
+
+            {shown.followUpQuestion ? (
               <div className="card" style={{ marginTop: 10, padding: 12 }}>
                 <div className="small" style={{ fontWeight: 700 }}>
                   שאלת המשך:
                 </div>
-                <div style={{ marginTop: 4 }}>{answer.followUpQuestion}</div>
+                <div style={{ marginTop: 4 }}>{shown.followUpQuestion}</div>
               </div>
             ) : null}
 
-            {(answer.sources?.length ?? 0) > 0 && (
+            {(shown.sources?.length ?? 0) > 0 && (
               <>
                 <hr />
                 <div className="h2">מקורות</div>
@@ -377,8 +510,9 @@ export default function HomePage() {
                   className="small"
                   style={{ margin: 0, paddingInlineStart: 18 }}
                 >
-                  {(answer.sources || []).map((c, i) => (
-                    <li key={i}>
+                  {(shown.sources || []).map((c, i) => (
+                    <li key={i} id={`source-${i + 1}`}>
+                      {shown.support ? `[${i + 1}] ` : null}
                       {c.title} — {c.section}
                       {c.url ? (
                         <>
@@ -395,7 +529,15 @@ export default function HomePage() {
               </>
             )}
             <div className="small" style={{ marginTop: 8, opacity: 0.8 }}>
-              רמת ביטחון: {answer.confidence}
+              {answer ? (
+                <>
+                  רמת ביטחון: {answer.confidence}
+                  {answer.route ? ` · מסלול: ${answer.route}` : null}
+                  {answer.scope ? ` · מיקוד: ${SCOPE_LABEL[answer.scope]}` : null}
+                </>
+              ) : (
+                "התשובה בכתיבה..."
+              )}
             </div>
           </>
         )}
@@ -1,5 +1,6 @@
 import { Index } from "flexsearch";
 import { db, type SourceChunk } from "./db";
+import { expandQuery, normalizeQuery } from "../src/lib/lexicon";
 
 type SearchHit = { id: string; score: number };
 
@@ -10,7 +11,9 @@ async function buildIndex() {
   const idx = new Index({ tokenize: "forward", cache: 100 });
   const all = await db.chunks.toArray();
   for (const c of all) {
-    idx.add(c.id, `${c.title}\n${c.section}\n${c.text}\n${c.tags.join(" ")}`);
+    const doc = `${c.title}\n${c.section}\n${c.text}\n${c.tags.join(" ")}`;
+    // Also index the prefix-stripped forms, so "הארקה" finds "בהארקה".
+    idx.add(c.id, `${doc}\n${normalizeQuery(doc).join(" ")}`);
   }
   index = idx;
   indexed = true;
@@ -26,10 +29,17 @@ export async function offlineSearch(
 ): Promise<SourceChunk[]> {
   await ensureIndex();
   if (!index) return [];
-  const ids = (index.search(query, limit) as SearchHit[] | string[]).map((h) =>
-    typeof h === "string" ? h : h.id
-  );
-  const chunks = await db.chunks.bulkGet(ids);
+  // The normalised query first, then the same query in the lexicon's other terms, then related terms.
+  const expansion = expandQuery(query);
+  const queries = [expansion.tokens.join(" ") || query, ...expansion.alternatives, ...expansion.related];
+  const ids: string[] = [];
+  for (const q of queries) {
+    if (ids.length >= limit) break;
+    for (const h of index.search(q, limit) as SearchHit[] | string[]) {
+      const id = typeof h === "string" ? h : h.id;
+      if (!ids.includes(id)) ids.push(id);
+    }
+  }
+  const chunks = await db.chunks.bulkGet(ids.slice(0, limit));
   return chunks.filter(Boolean) as SourceChunk[];
 }
-
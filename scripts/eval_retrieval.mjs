@@ -0,0 +1,136 @@
+// scripts/eval_retrieval.mjs
+// Retrieval quality of the /api/ask pipeline against a fixture corpus and a golden question set.
+// Reports recall@k, MRR and the citation hit rate, and compares them with the committed baseline.
+// Usage: npm run eval:retrieval
+//   RETRIEVAL_CORPUS=path/to.json, RETRIEVAL_GOLDEN=path/to.json   other fixtures
+//   RETRIEVAL_REPORT=path/to.json                                   also write this run's report there
+//   RETRIEVAL_UPDATE_BASELINE=1                                     accept this run as the new baseline
+//   EMBEDDINGS_PROVIDER=local                                       fuse semantic search in, as /api/ask does
+// Also checks that the regulation sections the calculators cite are in the corpus as quoted.
+import fs from "fs";
+import path from "path";
+import { loadTs } from "./lib/load_ts.mjs";
+
+const { memoryStore, retrieve, sanitize } = loadTs("src/lib/retrieval/index.ts");
+const { embedderFromEnv } = loadTs("src/lib/embeddings/index.ts");
+const { generateAnswer, providersFromEnv } = loadTs("src/lib/llm/index.ts");
+const { REGULATIONS, VOLTAGE_DROP_LIMIT } = loadTs("src/lib/calculators/regulations.ts");
+
+const fixture = (envVar, name) => path.resolve(process.env[envVar] || path.join("scripts", "fixtures", name));
+const corpus = JSON.parse(fs.readFileSync(fixture("RETRIEVAL_CORPUS", "retrieval_corpus.json"), "utf8"));
+const golden = JSON.parse(fs.readFileSync(fixture("RETRIEVAL_GOLDEN", "retrieval_golden.json"), "utf8"));
+const baselinePath = path.resolve("scripts", "fixtures", "retrieval_baseline.json");
+
+const K = [1, 3, 5];
+const embedder = embedderFromEnv(process.env);
+const store = memoryStore(corpus, { embedder });
+// Citations come from the extractive provider unless LLM_PROVIDERS says otherwise, so runs are repeatable.
+const providers = providersFromEnv({ ...process.env, LLM_PROVIDERS: process.env.LLM_PROVIDERS || "extractive" });
+
+const matches = (ref, exp) => ref.title === exp.title && (!exp.section || ref.section === exp.section);
+const label = (ref) => `${ref.title} § ${ref.section || "ללא סעיף"}`;
+const round = (x) => Math.round(x * 1000) / 1000;
+const mean = (xs) => (xs.length ? round(xs.reduce((a, b) => a + b, 0) / xs.length) : 0);
+
+// The calculators cite these sections next to their verdicts: each must be in the corpus,
+// under the same title and section, and say the limit the calculators apply.
+const citationProblems = [];
+if (!process.env.RETRIEVAL_CORPUS) {
+  const titles = new Map(corpus.sources.map((s) => [String(s.id), s.title]));
+  for (const [key, reg] of Object.entries(REGULATIONS)) {
+    const chunk = corpus.chunks.find((c) => titles.get(String(c.source_id)) === reg.title && c.section === reg.section);
+    if (!chunk) citationProblems.push(`${key}: no corpus section "${label(reg)}"`);
+    else if (!chunk.text.includes(reg.quote)) citationProblems.push(`${key}: "${reg.quote}" not in ${label(reg)}`);
+  }
+  for (const [supply, limit] of Object.entries(VOLTAGE_DROP_LIMIT)) {
+    if (!REGULATIONS[limit.reg].quote.includes(`${limit.pct}%`)) citationProblems.push(`voltage drop (${supply}): ${limit.pct}% is not what ${limit.reg} says`);
+  }
+}
+
+const questions = [];
+for (const item of golden) {
+  const question = sanitize(item.q);
+  const scope = item.scope || "law_only";
+  const retrieval = await retrieve(store, { question, scope, embedder });
+  const ranked = retrieval.ranked.map((h) => ({ title: h.source_title, section: h.section || "ללא סעיף" }));
+
+  const found = (k) => item.expected.filter((exp) => ranked.slice(0, k).some((r) => matches(r, exp))).length;
+  const firstRelevant = ranked.findIndex((r) => item.expected.some((exp) => matches(r, exp)));
+
+  let cited = [];
+  if (retrieval.context.length) {
+    const { answer } = await generateAnswer(providers, {
+      question,
+      context: retrieval.context,
+      sources: retrieval.sources,
+      conversation: [],
+    });
+    cited = answer.sources;
+  }
+
+  questions.push({
+    q: item.q,
+    scope,
+    firstRelevant: firstRelevant >= 0 ? firstRelevant + 1 : null,
+    ...Object.fromEntries(K.map((k) => [`recall@${k}`, round(found(k) / item.expected.length)])),
+    citationHit: cited.some((c) => item.expected.some((exp) => matches(c, exp))),
+    top: ranked.slice(0, Math.max(...K)).map(label),
+    cited: cited.map(label),
+  });
+}
+
+const summary = {
+  questions: questions.length,
+  embedder: embedder?.model || null,
+  ...Object.fromEntries(K.map((k) => [`recall@${k}`, mean(questions.map((r) => r[`recall@${k}`]))])),
+  mrr: mean(questions.map((r) => (r.firstRelevant ? 1 / r.firstRelevant : 0))),
+  citationHitRate: mean(questions.map((r) => (r.citationHit ? 1 : 0))),
+};
+// Fixed key order and no timestamps: two reports diff line by line.
+const report = JSON.stringify({ summary, questions }, null, 2) + "\n";
+
+for (const r of questions) {
+  if (r.firstRelevant === 1 && r.citationHit) continue;
+  console.log(`MISS  "${r.q}" (${r.scope})`);
+  console.log(`      first relevant: ${r.firstRelevant ?? "none"}, cited expected source: ${r.citationHit ? "yes" : "no"}`);
+  console.log(`      top: ${r.top.slice(0, 3).join(" | ") || "(nothing)"}`);
+}
+
+const metrics = Object.keys(summary).filter((key) => typeof summary[key] === "number" && key !== "questions");
+const baseline = fs.existsSync(baselinePath) ? JSON.parse(fs.readFileSync(baselinePath, "utf8")) : null;
+const comparable = baseline && baseline.summary.embedder === summary.embedder && baseline.summary.questions === summary.questions;
+const regressed = [];
+
+console.log(`\n[retrieval] ${questions.length} questions${embedder ? `, embedder ${embedder.model}` : ""}`);
+for (const key of metrics) {
+  const before = comparable ? baseline.summary[key] : undefined;
+  const diff = before === undefined ? null : round(summary[key] - before);
+  const delta = diff === null ? "" : ` (${diff >= 0 ? "+" : ""}${diff.toFixed(3)})`;
+  if (before !== undefined && summary[key] < before) regressed.push(key);
+  console.log(`  ${key.padEnd(16)} ${summary[key].toFixed(3)}${delta}`);
+}
+
+if (comparable) {
+  const prior = new Map(baseline.questions.map((r) => [`${r.scope}:${r.q}`, r]));
+  for (const r of questions) {
+    const b = prior.get(`${r.scope}:${r.q}`);
+    if (b && (b.firstRelevant !== r.firstRelevant || b.citationHit !== r.citationHit)) {
+      console.log(`  changed: "${r.q}" first relevant ${b.firstRelevant ?? "none"} -> ${r.firstRelevant ?? "none"}, cited ${b.citationHit} -> ${r.citationHit}`);
+    }
+  }
+} else if (baseline) {
+  console.log("  (baseline was made with another embedder or question set; not compared)");
+}
+
+if (process.env.RETRIEVAL_REPORT) fs.writeFileSync(path.resolve(process.env.RETRIEVAL_REPORT), report);
+if (process.env.RETRIEVAL_UPDATE_BASELINE === "1") {
+  fs.writeFileSync(baselinePath, report);
+  console.log(`\nBaseline written to ${path.relative(process.cwd(), baselinePath)}.`);
+  process.exit(0);
+}
+if (regressed.length) console.log(`\nBelow baseline: ${regressed.join(", ")} (RETRIEVAL_UPDATE_BASELINE=1 to accept).`);
+for (const p of citationProblems) console.log(`CITATION  ${p}`);
+if (!process.env.RETRIEVAL_CORPUS) {
+  console.log(`[citations] ${Object.keys(REGULATIONS).length} regulation citations checked, ${citationProblems.length} problem(s).`);
+}
+process.exit(regressed.length || citationProblems.length ? 1 : 0);
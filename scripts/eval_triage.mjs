@@ -0,0 +1,77 @@
+// scripts/eval_triage.mjs
+// Regression check for the triage classifier against a labelled question corpus, and for the
+// engine's dialogues (which route and topic each turn of a conversation lands on).
+// Usage: npm run eval:triage   (TRIAGE_CORPUS / ENGINE_DIALOGUES=path/to.json to use other fixtures)
+import fs from "fs";
+import path from "path";
+import { loadTs } from "./lib/load_ts.mjs";
+
+const { classify } = loadTs("src/lib/triage.ts");
+const { runEngine } = loadTs("src/lib/engine.ts");
+
+const corpusPath = process.env.TRIAGE_CORPUS
+  ? path.join(process.cwd(), process.env.TRIAGE_CORPUS)
+  : path.join(process.cwd(), "scripts", "fixtures", "triage_corpus.json");
+const corpus = JSON.parse(fs.readFileSync(corpusPath, "utf8"));
+
+let passed = 0;
+let ambiguous = 0;
+const failures = [];
+
+for (const item of corpus) {
+  const result = classify(item.q, item.modeHint);
+  if (result.ambiguous) ambiguous++;
+  const ambiguityOk = item.ambiguous === undefined || item.ambiguous === result.ambiguous;
+  if (result.route === item.route && ambiguityOk) {
+    passed++;
+    continue;
+  }
+  failures.push({ item, result });
+}
+
+for (const { item, result } of failures) {
+  const ranked = result.ranked
+    .slice(0, 3)
+    .map((r) => `${r.route}=${r.score} [${r.evidence.join(", ")}]`)
+    .join(" | ");
+  console.log(`FAIL  "${item.q}"${item.modeHint ? ` (mode ${item.modeHint})` : ""}`);
+  console.log(`      expected ${item.route}${item.ambiguous ? " (ambiguous)" : ""}, got ${result.route}${result.ambiguous ? " (ambiguous)" : ""}: ${ranked}`);
+}
+
+console.log(`\n[triage] ${passed}/${corpus.length} correct, ${ambiguous} flagged ambiguous.`);
+
+const dialoguesPath = process.env.ENGINE_DIALOGUES
+  ? path.join(process.cwd(), process.env.ENGINE_DIALOGUES)
+  : path.join(process.cwd(), "scripts", "fixtures", "engine_dialogues.json");
+const dialogues = JSON.parse(fs.readFileSync(dialoguesPath, "utf8"));
+
+let turnsPassed = 0;
+let turnsTotal = 0;
+for (const dialogue of dialogues) {
+  let chatState;
+  for (const turn of dialogue.turns) {
+    turnsTotal++;
+    const result = runEngine({ question: turn.q, forceRoute: turn.forceRoute, chatState });
+    chatState = result.chatState;
+    const got = {
+      route: result.route,
+      topic: chatState.topic,
+      stage: chatState.stage,
+      choices: !!result.answer?.choices?.length,
+      // A calculator answered from the question's own numbers, with nothing left to ask.
+      computed: result.answer?.kind === "calc" && !result.answer.requiredInfo?.length,
+    };
+    const wrong = ["route", "topic", "stage", "computed"].filter((k) => turn[k] !== undefined && turn[k] !== got[k]);
+    if (!!turn.choices !== got.choices) wrong.push("choices");
+    if (!wrong.length) {
+      turnsPassed++;
+      continue;
+    }
+    failures.push({ dialogue, turn });
+    console.log(`FAIL  [${dialogue.name}] "${turn.q}"${turn.forceRoute ? ` (picked ${turn.forceRoute})` : ""}`);
+    console.log(`      ${wrong.map((k) => `${k}: expected ${turn[k] ?? false}, got ${got[k]}`).join("; ")}`);
+  }
+}
+
+console.log(`[engine] ${turnsPassed}/${turnsTotal} dialogue turns correct.`);
+process.exit(failures.length ? 1 : 0);
@@ -821,6 +821,72 @@ async function upsertSource({ title, url, publisher, doc_type }) {
   return data;
 }
 
+// Embeddings for semantic retrieval (see scripts/sql/search_chunks_vector.sql).
+// The embedder is the app's own, so ingest and /api/ask always use the same model.
+let embedderPromise = null;
+function getEmbedder() {
+  if (!embedderPromise) {
+    embedderPromise = import("./lib/load_ts.mjs").then(({ loadTs }) =>
+      loadTs("src/lib/embeddings/index.ts").embedderFromEnv(process.env)
+    );
+  }
+  return embedderPromise;
+}
+
+async function embedTexts(embedder, texts) {
+  const batchSize = 64;
+  const vectors = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    vectors.push(...(await embedder.embed(texts.slice(i, i + batchSize))));
+  }
+  return vectors;
+}
+
+// Adds embedding + embedding_model to chunk rows; on failure the rows go in without
+// them and `EMBED_MISSING=1` fills them in later.
+async function withEmbeddings(rows) {
+  const embedder = await getEmbedder();
+  if (!embedder || !rows.length) return rows;
+  try {
+    const vectors = await embedTexts(embedder, rows.map((r) => r.text));
+    return rows.map((r, i) => ({ ...r, embedding: vectors[i], embedding_model: embedder.model }));
+  } catch (e) {
+    console.warn(`[embed] failed (${e.message || e}); chunks stored without embeddings.`);
+    return rows;
+  }
+}
+
+// Backfill: embed every chunk that has no vector, or one from a different model.
+async function embedMissingChunks() {
+  const embedder = await getEmbedder();
+  if (!embedder) throw new Error("EMBED_MISSING=1 needs EMBEDDINGS_PROVIDER in .env.ingest");
+  console.log(`[embed] model: ${embedder.model}`);
+
+  let done = 0;
+  for (;;) {
+    const { data, error } = await supabase
+      .from("chunks")
+      .select("id,text")
+      .or(`embedding.is.null,embedding_model.neq.${embedder.model}`)
+      .order("id", { ascending: true })
+      .limit(100);
+    if (error) throw error;
+    if (!data || !data.length) break;
+
+    const vectors = await embedTexts(embedder, data.map((c) => c.text || ""));
+    for (let i = 0; i < data.length; i++) {
+      const { error: upErr } = await supabase
+        .from("chunks")
+        .update({ embedding: vectors[i], embedding_model: embedder.model })
+        .eq("id", data[i].id);
+      if (upErr) throw upErr;
+    }
+    done += data.length;
+    console.log(`[embed] ${done} chunks embedded`);
+  }
+  console.log(`[embed] done: ${done} chunks.`);
+}
+
 async function replaceChunks(sourceId, chunks, url, used, extraLocator = {}) {
   const { error: delErr } = await supabase
     .from("chunks")
@@ -828,14 +894,16 @@ async function replaceChunks(sourceId, chunks, url, used, extraLocator = {}) {
     .eq("source_id", sourceId);
   if (delErr) throw delErr;
 
-  const rows = chunks.map((text, idx) => ({
-    source_id: sourceId,
-    chunk_index: idx + 1,
-    section: guessSection(text) || `Chunk ${idx + 1}`,
-    text,
-    tags: [],
-    locator: { url, used, chunk: idx + 1, ...extraLocator },
-  }));
+  const rows = await withEmbeddings(
+    chunks.map((text, idx) => ({
+      source_id: sourceId,
+      chunk_index: idx + 1,
+      section: guessSection(text) || `Chunk ${idx + 1}`,
+      text,
+      tags: [],
+      locator: { url, used, chunk: idx + 1, ...extraLocator },
+    }))
+  );
 
   const batchSize = 150;
   for (let i = 0; i < rows.length; i += batchSize) {
@@ -928,6 +996,11 @@ async function ingestOne(src) {
 }
 
 async function main() {
+  if (process.env.EMBED_MISSING === "1") {
+    await embedMissingChunks();
+    return;
+  }
+
   const pdfDir = process.env.PDF_DIR;
   let sources = [];
   if (pdfDir) {
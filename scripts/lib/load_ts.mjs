@@ -0,0 +1,27 @@
+// scripts/lib/load_ts.mjs
+// Lets node scripts load the app's TypeScript modules (src/lib/**) without a build step.
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import ts from "typescript";
+
+const localRequire = createRequire(import.meta.url);
+
+if (!localRequire.extensions[".ts"]) {
+  localRequire.extensions[".ts"] = (module, filename) => {
+    const source = fs.readFileSync(filename, "utf8");
+    const { outputText } = ts.transpileModule(source, {
+      fileName: filename,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+      },
+    });
+    module._compile(outputText, filename);
+  };
+}
+
+export function loadTs(relPathFromRepoRoot) {
+  return localRequire(path.join(process.cwd(), relPathFromRepoRoot));
+}
@@ -0,0 +1,48 @@
+-- Run this in Supabase SQL Editor (after search_chunks_hybrid.sql).
+-- Semantic retrieval: an embedding per chunk and a nearest-neighbour RPC.
+-- /api/ask fuses its results with search_chunks when EMBEDDINGS_PROVIDER is set.
+--
+-- The dimension must match EMBEDDING_DIMENSIONS in src/lib/embeddings/embedder.ts.
+-- Fill the column with `EMBED_MISSING=1 node scripts/ingest.js`; new ingests embed as they go.
+
+create extension if not exists vector;
+
+alter table public.chunks add column if not exists embedding vector(1536);
+alter table public.chunks add column if not exists embedding_model text;
+
+-- Cosine distance, the metric match_chunks orders by.
+create index if not exists idx_chunks_embedding_hnsw
+  on public.chunks using hnsw (embedding vector_cosine_ops);
+
+-- Vector search RPC: same columns as search_chunks; rank is cosine similarity.
+-- Only vectors from match_model are compared (null compares against every model).
+create or replace function public.match_chunks(
+  query_embedding vector(1536),
+  k int default 16,
+  match_model text default null
+)
+returns table (
+  source_title text,
+  source_url text,
+  section text,
+  locator jsonb,
+  text text,
+  rank double precision
+)
+language sql
+stable
+as $$
+  select
+    s.title as source_title,
+    s.url as source_url,
+    c.section,
+    c.locator,
+    c.text,
+    (1 - (c.embedding <=> query_embedding))::double precision as rank
+  from public.chunks c
+  join public.sources s on s.id = c.source_id
+  where c.embedding is not null
+    and (match_model is null or c.embedding_model = match_model)
+  order by c.embedding <=> query_embedding
+  limit greatest(1, coalesce(k, 16));
+$$;
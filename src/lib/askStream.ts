@@ -0,0 +1,141 @@
+import type { Answer, SourceRef } from "../types/answer";
+
+/*
+ * Server-sent events for /api/ask. A streaming request (Accept: text/event-stream)
+ * gets three phases: the ranked sources, the answer text as it is generated, and
+ * the final Answer. Anything answered before retrieval (calculators, flows, errors)
+ * still comes back as plain JSON, so clients must handle both.
+ */
+
+export type AskStreamEvent =
+  | { event: "sources"; data: { sources: SourceRef[] } }
+  | { event: "delta"; data: AnswerDraft }
+  | { event: "answer"; data: Answer }
+  | { event: "error"; data: { error: string } };
+
+// The fields worth showing before the model is done; each delta carries the whole draft so far.
+export type AnswerDraft = { bottomLine?: string; steps?: string[] };
+
+export const EVENT_STREAM = "text/event-stream";
+
+export function wantsEventStream(accept: string | string[] | undefined) {
+  return [accept].flat().some((a) => (a || "").includes(EVENT_STREAM));
+}
+
+// Just what the writer needs from NextApiResponse, so this module stays importable in the browser.
+type StreamTarget = {
+  writeHead(status: number, headers: Record<string, string>): unknown;
+  write(chunk: string): unknown;
+  end(): unknown;
+};
+
+export function openEventStream(res: StreamTarget) {
+  res.writeHead(200, {
+    "Content-Type": `${EVENT_STREAM}; charset=utf-8`,
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // keep reverse proxies from holding events back
+  });
+  const send = (e: AskStreamEvent) => {
+    res.write(`event: ${e.event}\ndata: ${JSON.stringify(e.data)}\n\n`);
+    // The compression middleware buffers until flushed.
+    (res as { flush?: () => void }).flush?.();
+  };
+  return {
+    send,
+    finish(answer: Answer) {
+      send({ event: "answer", data: answer });
+      res.end();
+    },
+    fail(error: string) {
+      send({ event: "error", data: { error } });
+      res.end();
+    },
+  };
+}
+
+export type EventStream = ReturnType<typeof openEventStream>;
+
+/** Raw SSE frames from a fetch body: used for our own stream and for the OpenAI one. */
+export async function* readSse(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    buf += decoder.decode(value, { stream: !done });
+    let cut: number;
+    while ((cut = buf.search(/\r?\n\r?\n/)) >= 0) {
+      const frame = buf.slice(0, cut);
+      buf = buf.slice(cut).replace(/^\r?\n\r?\n/, "");
+      let event = "message";
+      const data: string[] = [];
+      for (const line of frame.split(/\r?\n/)) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+      }
+      if (data.length) yield { event, data: data.join("\n") };
+    }
+    if (done) return;
+  }
+}
+
+export async function* readAskStream(body: ReadableStream<Uint8Array>): AsyncGenerator<AskStreamEvent> {
+  for await (const f of readSse(body)) {
+    if (f.event === "sources" || f.event === "delta" || f.event === "answer" || f.event === "error") {
+      yield { event: f.event, data: JSON.parse(f.data) } as AskStreamEvent;
+    }
+  }
+}
+
+/**
+ * Reads bottomLine and steps out of a JSON object that is still being generated.
+ * Strings cut mid-way are returned as far as they go; nothing else is parsed.
+ */
+export function draftFromPartialJson(text: string): AnswerDraft {
+  const draft: AnswerDraft = {};
+  const bottom = text.match(/"bottomLine"\s*:\s*"/);
+  if (bottom?.index !== undefined) draft.bottomLine = readString(text, bottom.index + bottom[0].length).value;
+
+  const steps = text.match(/"steps"\s*:\s*\[/);
+  if (steps?.index !== undefined) {
+    draft.steps = [];
+    let at = steps.index + steps[0].length;
+    for (;;) {
+      const next = text.slice(at).match(/^\s*,?\s*"/);
+      if (!next) break;
+      const s = readString(text, at + next[0].length);
+      if (s.value) draft.steps.push(s.value);
+      if (!s.closed) break;
+      at = s.end;
+    }
+  }
+  return draft;
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", '"': '"', "\\": "\\", "/": "/" };
+
+// From just after an opening quote: the string value, and where it ended if it was closed.
+function readString(text: string, start: number): { value: string; closed: boolean; end: number } {
+  let value = "";
+  for (let k = start; k < text.length; k++) {
+    const ch = text[k];
+    if (ch === '"') return { value, closed: true, end: k + 1 };
+    if (ch !== "\\") {
+      value += ch;
+      continue;
+    }
+    const esc = text[k + 1];
+    if (esc === undefined) break;
+    if (esc === "u") {
+      const hex = text.slice(k + 2, k + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      k += 5;
+    } else {
+      value += ESCAPES[esc] ?? esc;
+      k += 1;
+    }
+  }
+  return { value, closed: false, end: text.length };
+}
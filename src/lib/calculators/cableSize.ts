@@ -0,0 +1,214 @@
+import type { Answer, ComplianceCheck } from "../../types/answer";
+import { invalidInput, readQuantities, round } from "./quantity";
+import { checkAtMost, withCompliance } from "./regulations";
+
+// Installation reference methods (IEC 60364-5-52 naming).
+// A1: conductors in conduit inside a thermally insulated wall
+// B1: conductors in conduit on a wall / in a masonry wall
+// C: cable clipped direct on a wall or tray
+// D: cable in a buried duct
+export type InstallMethod = "A1" | "B1" | "C" | "D";
+
+export type CableSizeInput = {
+  designCurrentA: number;
+  method: InstallMethod;
+  material: "Cu" | "Al";
+  insulation: "PVC" | "XLPE";
+  phase?: "1P" | "3P";
+  ambientC?: number;
+  grouping?: number; // number of circuits bunched together (incl. this one)
+  protectionA?: number; // breaker rating In, if already chosen
+};
+
+const SIZES = [1.5, 2.5, 4, 6, 10, 16, 25, 35, 50, 70, 95, 120];
+
+// Copper ampacity (A) per size, columns: A1, B1, C, D.
+// 2 loaded conductors = single-phase, 3 loaded conductors = three-phase.
+const AMPACITY_CU: Record<"PVC" | "XLPE", Record<"1P" | "3P", number[][]>> = {
+  PVC: {
+    "1P": [
+      [14.5, 17.5, 19.5, 22], [19.5, 24, 27, 29], [26, 32, 36, 38], [34, 41, 46, 47],
+      [46, 57, 63, 63], [61, 76, 85, 81], [80, 101, 112, 104], [99, 125, 138, 125],
+      [119, 151, 168, 148], [151, 192, 213, 183], [182, 232, 258, 216], [210, 269, 299, 246],
+    ],
+    "3P": [
+      [13.5, 15.5, 17.5, 18], [18, 21, 24, 24], [24, 28, 32, 31], [31, 36, 41, 39],
+      [42, 50, 57, 52], [56, 68, 76, 67], [73, 89, 96, 86], [89, 110, 119, 103],
+      [108, 134, 144, 122], [136, 171, 184, 151], [164, 207, 223, 179], [188, 239, 259, 203],
+    ],
+  },
+  XLPE: {
+    "1P": [
+      [19, 23, 24, 26], [26, 31, 33, 34], [35, 42, 45, 44], [45, 54, 58, 56],
+      [61, 75, 80, 73], [81, 100, 107, 95], [106, 133, 138, 121], [131, 164, 171, 146],
+      [158, 198, 209, 173], [200, 253, 269, 213], [241, 306, 328, 252], [278, 354, 382, 287],
+    ],
+    "3P": [
+      [17, 20, 22, 22], [23, 28, 30, 29], [31, 37, 40, 37], [40, 48, 52, 46],
+      [54, 66, 71, 61], [73, 88, 96, 79], [95, 117, 119, 101], [117, 144, 147, 122],
+      [141, 175, 179, 144], [179, 222, 229, 178], [216, 269, 278, 211], [249, 312, 322, 240],
+    ],
+  },
+};
+
+const METHOD_COLUMN: Record<InstallMethod, number> = { A1: 0, B1: 1, C: 2, D: 3 };
+
+// Aluminium is taken as a fixed fraction of copper and only from 16mm² up.
+const AL_FACTOR = 0.78;
+const AL_MIN_SIZE = 16;
+
+// Ambient temperature factors, in steps of 5°C (air: ref 30°C, ground: ref 20°C).
+const TEMP_AIR: Record<"PVC" | "XLPE", Record<number, number>> = {
+  PVC: { 10: 1.22, 15: 1.17, 20: 1.12, 25: 1.06, 30: 1, 35: 0.94, 40: 0.87, 45: 0.79, 50: 0.71, 55: 0.61, 60: 0.5 },
+  XLPE: { 10: 1.15, 15: 1.12, 20: 1.08, 25: 1.04, 30: 1, 35: 0.96, 40: 0.91, 45: 0.87, 50: 0.82, 55: 0.76, 60: 0.71, 65: 0.65, 70: 0.58 },
+};
+const TEMP_GROUND: Record<"PVC" | "XLPE", Record<number, number>> = {
+  PVC: { 10: 1.1, 15: 1.05, 20: 1, 25: 0.95, 30: 0.89, 35: 0.84, 40: 0.77 },
+  XLPE: { 10: 1.07, 15: 1.04, 20: 1, 25: 0.96, 30: 0.93, 35: 0.89, 40: 0.85 },
+};
+
+// Grouping factors for circuits bunched in air / on a surface.
+const GROUPING: [number, number][] = [
+  [1, 1], [2, 0.8], [3, 0.7], [4, 0.65], [5, 0.6], [6, 0.57], [7, 0.54],
+  [8, 0.52], [9, 0.5], [12, 0.45], [16, 0.41], [20, 0.38],
+];
+
+export const STANDARD_BREAKERS = [6, 10, 13, 16, 20, 25, 32, 40, 50, 63, 80, 100, 125, 160, 200, 250];
+
+export function calcCableSize(raw: CableSizeInput): Answer {
+  const q = readQuantities(raw, {
+    designCurrentA: { label: "זרם תכן חיובי באמפר", unit: "A", required: true },
+    method: { label: "שיטת התקנה (A1/B1/C/D)", oneOf: ["A1", "B1", "C", "D"], required: true },
+    material: { label: "חומר מוליך (Cu/Al)", oneOf: ["Cu", "Al"], required: true },
+    insulation: { label: "סוג בידוד (PVC/XLPE)", oneOf: ["PVC", "XLPE"], required: true },
+    phase: { label: "פאזה (1P/3P)", oneOf: ["1P", "3P"] },
+    ambientC: { label: "טמפרטורת סביבה", unit: "°C" },
+    grouping: { label: "מספר מעגלים בקבוצה", dimension: "count" },
+    protectionA: { label: "זרם המפסק", unit: "A" },
+  });
+  if (q.errors.length) return withCompliance(invalidInput("בחירת חתך כבל", q.errors, "נתוני הכניסה אינם מאפשרים חישוב חתך."), []);
+
+  const i = { ...raw, ...q.values } as CableSizeInput;
+  const phase = i.phase ?? "1P";
+  const buried = i.method === "D";
+  const ambientC = i.ambientC ?? (buried ? 20 : 30);
+  const grouping = Math.max(1, Math.round(i.grouping ?? 1));
+
+  const ca = tempFactor(i.insulation, buried, ambientC);
+  const cg = groupingFactor(grouping);
+  const derate = ca * cg;
+
+  const cautions: string[] = [
+    "הטבלאות המובנות הן טבלאות IEC 60364-5-52; טבלאות התקנות (תשע\"ד-2014) מותאמות לאקלים בארץ — יש לאמת מולן ומול היצרן.",
+  ];
+
+  if (derate <= 0) {
+    return {
+      kind: "calc",
+      title: "בחירת חתך כבל",
+      bottomLine: "נתוני הכניסה אינם מאפשרים חישוב חתך.",
+      steps: [],
+      requiredInfo: ["טמפרטורת סביבה בתחום הטבלאות"],
+      confidence: "low",
+    };
+  }
+
+  const breakerA = i.protectionA ?? STANDARD_BREAKERS.find((b) => b >= i.designCurrentA);
+  const targetA = Math.max(i.designCurrentA, breakerA ?? 0);
+
+  const table = AMPACITY_CU[i.insulation][phase];
+  const col = METHOD_COLUMN[i.method];
+  const factor = i.material === "Al" ? AL_FACTOR : 1;
+
+  let sizeMm2: number | undefined;
+  let izA = 0;
+  for (let k = 0; k < SIZES.length; k++) {
+    if (i.material === "Al" && SIZES[k] < AL_MIN_SIZE) continue;
+    const iz = table[k][col] * factor * derate;
+    if (iz >= targetA) {
+      sizeMm2 = SIZES[k];
+      izA = iz;
+      break;
+    }
+  }
+
+  if (sizeMm2 === undefined) {
+    return {
+      kind: "calc",
+      title: "בחירת חתך כבל",
+      bottomLine: `הזרם הנדרש (${round(targetA, 1)}A) חורג מהטבלאות המובנות (עד ${SIZES[SIZES.length - 1]} ממ״ר).`,
+      steps: ["שקול כבלים מקבילים או שיטת התקנה עם פיזור חום טוב יותר."],
+      cautions,
+      confidence: "low",
+    };
+  }
+
+  const protectionOk =
+    breakerA !== undefined && i.designCurrentA <= breakerA && breakerA <= izA;
+
+  if (breakerA === undefined) {
+    cautions.push("לא נמצא מפסק סטנדרטי מתאים לזרם התכן; יש לבחור הגנה ידנית.");
+  } else if (i.designCurrentA > breakerA) {
+    cautions.push(`זרם התכן (${i.designCurrentA}A) גבוה מזרם המפסק (${breakerA}A) — ההגנה תקפוץ בעומס רגיל.`);
+  }
+  if (i.material === "Al") {
+    cautions.push("במוליכי אלומיניום יש להקפיד על מהדקים מתאימים ומומנט הידוק לפי היצרן.");
+  }
+  if (buried && grouping > 1) {
+    cautions.push("מקדם הקיבוץ מחושב לפי התקנה באוויר; בקרקע יש לאמת לפי מרווחי הצינורות.");
+  }
+
+  const checks: ComplianceCheck[] = [
+    checkAtMost("זרם התכן מול זרם המפסק (Ib ≤ In)", i.designCurrentA, breakerA, "A", "cableLoading"),
+    checkAtMost("זרם המפסק מול הזרם המותר (In ≤ Iz)", breakerA, izA, "A", "cableLoading"),
+  ];
+
+  return withCompliance({
+    kind: "calc",
+    title: "בחירת חתך כבל",
+    bottomLine: `חתך מינימלי: ${sizeMm2} ממ״ר ${i.material} (Iz≈${round(izA, 1)}A)`,
+    steps: [
+      "זרם התכן Ib נקבע לפי העומס המחושב של המעגל.",
+      `נבחר מפסק In=${breakerA ?? "?"}A כך ש-Ib ≤ In.`,
+      "החתך נבחר כך שהזרם המותר לאחר מקדמי תיקון Iz ≥ In.",
+      "יש לבדוק בנוסף נפילת מתח וזרם קצר לפני אישור סופי.",
+    ],
+    values: {
+      זרם_תכן_אמפר: i.designCurrentA,
+      שיטת_התקנה: i.method,
+      חומר: i.material,
+      בידוד: i.insulation,
+      פאזה: phase,
+      טמפרטורת_סביבה: ambientC,
+      מקדם_טמפרטורה: round(ca, 2),
+      מעגלים_בקבוצה: grouping,
+      מקדם_קיבוץ: round(cg, 2),
+      חתך_ממ2: sizeMm2,
+      זרם_מותר_אמפר: round(izA, 1),
+      מפסק_אמפר: breakerA ?? "לא נקבע",
+      בדיקת_הגנה: protectionOk ? "Ib ≤ In ≤ Iz תקין" : "לא עומד ב-Ib ≤ In ≤ Iz",
+    },
+    assumptions: [
+      "טבלאות זרם לפי IEC 60364-5-52 (מוליכים טעונים: 2 בחד-פאזי, 3 בתלת-פאזי).",
+      `טמפרטורת ייחוס ${buried ? "20°C בקרקע" : "30°C באוויר"}; ערכי ביניים מעוגלים כלפי מעלה לצעד של 5°C.`,
+      "מפסק זעיר (MCB) עם I2 ≤ 1.45·In, ולכן תנאי ההעמסה-יתר מתקיים מעצמו.",
+    ],
+    cautions,
+    confidence: protectionOk ? "medium" : "low",
+  }, checks);
+}
+
+function tempFactor(insulation: "PVC" | "XLPE", buried: boolean, ambientC: number) {
+  const table = (buried ? TEMP_GROUND : TEMP_AIR)[insulation];
+  const steps = Object.keys(table).map(Number).sort((a, b) => a - b);
+  const step = steps.find((t) => t >= ambientC);
+  return step === undefined ? 0 : table[step];
+}
+
+function groupingFactor(n: number) {
+  let f = 1;
+  for (const [count, factor] of GROUPING) {
+    if (n >= count) f = factor;
+  }
+  return f;
+}
@@ -0,0 +1,170 @@
+import type { Answer, SourceRef } from "../../types/answer";
+import { invalidInput, readQuantities, round } from "./quantity";
+import { checkAtMost, withCompliance } from "./regulations";
+
+export type ElectrodeType = "rod" | "strip" | "plate";
+
+export type EarthElectrodeInput = {
+  type: ElectrodeType;
+  soilResistivityOhmM: number; // ρ, from a Wenner test or a soil-type table
+  lengthM?: number; // rod length (driven depth) or strip length
+  diameterMm?: number; // rod, default 16mm
+  widthMm?: number; // strip, default 30mm
+  depthM?: number; // strip burial depth, default 0.6m
+  plateAreaM2?: number; // one face of the plate
+  rods?: number; // rods in a straight line, default 1
+  spacingM?: number; // between adjacent rods, default the rod length
+  rcdMa?: number; // IΔn of the RCD protecting the installation, default 30mA
+};
+
+const TOUCH_LIMIT_V = 50;
+const DEFAULT_RCD_MA = 30;
+const DEFAULT_ROD = { lengthM: 1.5, diameterMm: 16 };
+const DEFAULT_STRIP = { widthMm: 30, depthM: 0.6 };
+const MAX_RODS = 20;
+
+const SOURCES: SourceRef[] = [{ title: "IEC 60364-4-41", section: "411.5.3 — RA × IΔn ≤ 50V" }];
+
+// Dwight: single driven rod of length L and diameter d.
+function rodResistance(rho: number, lengthM: number, diameterM: number) {
+  return (rho / (2 * Math.PI * lengthM)) * (Math.log((4 * lengthM) / diameterM) - 1);
+}
+
+// Sunde: buried horizontal conductor; a flat strip of width w behaves like a wire of radius w/4.
+function stripResistance(rho: number, lengthM: number, widthM: number, depthM: number) {
+  const a = widthM / 4;
+  return (rho / (Math.PI * lengthM)) * (Math.log((2 * lengthM) / Math.sqrt(2 * a * depthM)) - 1);
+}
+
+// BS 7430: buried plate, A is the area of one face.
+function plateResistance(rho: number, areaM2: number) {
+  return (rho / 4) * Math.sqrt(Math.PI / areaM2);
+}
+
+// BS 7430 rods in a line: Rn = R1·(1 + λ·α)/n with α = ρ/(2π·R1·s); λ ≈ 2·Σ1/k reproduces its table.
+function rodArrayResistance(rho: number, r1: number, n: number, spacingM: number) {
+  if (n <= 1) return r1;
+  let lambda = 0;
+  for (let k = 2; k <= n; k++) lambda += 2 / k;
+  const alpha = rho / (2 * Math.PI * r1 * spacingM);
+  return (r1 * (1 + lambda * alpha)) / n;
+}
+
+const parallel = (a: number, b: number) => (a * b) / (a + b);
+
+const TYPE_LABEL: Record<ElectrodeType, string> = { rod: "מוט", strip: "פס", plate: "פלטה" };
+
+export function calcEarthElectrode(raw: EarthElectrodeInput): Answer {
+  const q = readQuantities(raw, {
+    soilResistivityOhmM: { label: "התנגדות סגולית של הקרקע (Ω·m)", unit: "Ω·m", required: true },
+    type: { label: "סוג אלקטרודה (rod/strip/plate)", oneOf: ["rod", "strip", "plate"], required: true },
+    lengthM: { label: raw.type === "strip" ? "אורך הפס במטר" : "אורך המוט", unit: "m", required: raw.type === "strip" },
+    diameterMm: { label: "קוטר המוט", unit: "mm", max: 100 },
+    widthMm: { label: "רוחב הפס", unit: "mm", max: 200 },
+    depthM: { label: "עומק הטמנה", unit: "m", max: 10 },
+    plateAreaM2: { label: "שטח הפלטה במ״ר", unit: "m²", required: raw.type === "plate", max: 10 },
+    rods: { label: "מספר מוטות", dimension: "count", max: MAX_RODS },
+    spacingM: { label: "מרווח בין מוטות", unit: "m", max: 100 },
+    rcdMa: { label: "רגישות הפחת", unit: "mA", max: 1000 },
+  });
+  if (q.errors.length) return invalidInput("הערכת התנגדות אלקטרודת הארקה", q.errors, "חסרים נתונים להערכת התנגדות האלקטרודה.");
+
+  const i = { ...raw, ...q.values } as EarthElectrodeInput;
+  const rho = i.soilResistivityOhmM;
+
+  const rcdMa = i.rcdMa ?? DEFAULT_RCD_MA;
+  const limit = TOUCH_LIMIT_V / (rcdMa / 1000);
+
+  const rodLength = i.type === "rod" ? i.lengthM ?? DEFAULT_ROD.lengthM : DEFAULT_ROD.lengthM;
+  const rodDiameterM = (i.type === "rod" ? i.diameterMm ?? DEFAULT_ROD.diameterMm : DEFAULT_ROD.diameterMm) / 1000;
+  const spacing = i.spacingM ?? rodLength;
+  const r1 = rodResistance(rho, rodLength, rodDiameterM);
+
+  const rods = i.type === "rod" ? i.rods ?? 1 : 0;
+  const rElectrode =
+    i.type === "rod"
+      ? rodArrayResistance(rho, r1, rods, spacing)
+      : i.type === "strip"
+        ? stripResistance(rho, i.lengthM!, (i.widthMm ?? DEFAULT_STRIP.widthMm) / 1000, i.depthM ?? DEFAULT_STRIP.depthM)
+        : plateResistance(rho, i.plateAreaM2!);
+
+  const pass = rElectrode <= limit;
+
+  // Rods to add: grow the line for a rod electrode, or add a separate line of rods beside a strip/plate.
+  let extraRods: number | undefined = pass ? 0 : undefined;
+  if (!pass) {
+    for (let n = 1; n <= MAX_RODS; n++) {
+      const total =
+        i.type === "rod"
+          ? rods + n <= MAX_RODS
+            ? rodArrayResistance(rho, r1, rods + n, spacing)
+            : Infinity
+          : parallel(rElectrode, rodArrayResistance(rho, r1, n, spacing));
+      if (total <= limit) {
+        extraRods = n;
+        break;
+      }
+    }
+  }
+
+  const describe =
+    i.type === "rod"
+      ? `${rods} ${rods === 1 ? "מוט" : "מוטות"} ${rodLength}m Ø${rodDiameterM * 1000}mm${rods > 1 ? ` במרווח ${spacing}m` : ""}`
+      : i.type === "strip"
+        ? `פס ${i.lengthM}m ברוחב ${i.widthMm ?? DEFAULT_STRIP.widthMm}mm בעומק ${i.depthM ?? DEFAULT_STRIP.depthM}m`
+        : `פלטה ${i.plateAreaM2} מ״ר`;
+
+  const steps = [
+    `התנגדות משוערת של ${describe} בקרקע ${rho}Ω·m: RA≈${round(rElectrode, 1)}Ω.`,
+    `תנאי הבדיקה: RA × IΔn ≤ ${TOUCH_LIMIT_V}V, כלומר RA ≤ ${round(limit, 0)}Ω עם פחת ${rcdMa}mA.`,
+  ];
+  if (!pass) {
+    steps.push(
+      extraRods !== undefined
+        ? `${moreRods(extraRods)} באורך ${rodLength}m במרווח ${spacing}m${i.type === "rod" ? " באותו קו" : " לצד האלקטרודה"}.`
+        : `גם ${MAX_RODS} מוטות לא מספיקים — שקול מוטות ארוכים יותר, טבעת הארקה או פחת רגיש יותר.`
+    );
+  }
+  steps.push("לאחר ההתקנה יש למדוד את RA בפועל ולתעד בטופס הבדיקה.");
+
+  const assumptions = [
+    "קרקע אחידה; ההתנגדות הסגולית משתנה עם הלחות והעונה — בקיץ יבש הערך גבוה יותר.",
+    i.type === "rod" ? "מוט: נוסחת Dwight; מוטות בקו: מקדם השפעה הדדית לפי BS 7430." : i.type === "strip" ? "פס: נוסחת Sunde למוליך אופקי." : "פלטה: נוסחת BS 7430.",
+  ];
+  if (i.rcdMa === undefined) assumptions.push(`רגישות הפחת לא הוזנה — הונח IΔn=${DEFAULT_RCD_MA}mA.`);
+  if (i.type !== "rod" && !pass) assumptions.push("מוטות נוספים לצד האלקטרודה חושבו ללא השפעה הדדית ביניהם לבין האלקטרודה.");
+  if (i.type === "rod" && rods > 1 && spacing < rodLength) {
+    assumptions.push("מרווח קטן מאורך המוט מקטין מאוד את תועלת המוט הנוסף.");
+  }
+
+  return withCompliance({
+    kind: "calc",
+    title: "הערכת התנגדות אלקטרודת הארקה",
+    bottomLine: pass
+      ? `RA≈${round(rElectrode, 1)}Ω ≤ ${round(limit, 0)}Ω — עומד בדרישה עם פחת ${rcdMa}mA`
+      : `RA≈${round(rElectrode, 1)}Ω > ${round(limit, 0)}Ω — לא עומד בדרישה${extraRods !== undefined ? `; ${moreRods(extraRods)}` : ""}`,
+    steps,
+    values: {
+      סוג_אלקטרודה: TYPE_LABEL[i.type],
+      התנגדות_סגולית_אוהם_מטר: rho,
+      ...(i.type === "rod" ? { התנגדות_מוט_בודד_אוהם: round(r1, 1), מספר_מוטות: rods, מרווח_מטר: spacing } : {}),
+      התנגדות_משוערת_אוהם: round(rElectrode, 1),
+      רגישות_פחת_mA: rcdMa,
+      ערך_מרבי_אוהם: round(limit, 0),
+      מתח_מגע_וולט: round((rElectrode * rcdMa) / 1000, 2),
+      מוטות_נוספים: extraRods ?? `יותר מ-${MAX_RODS}`,
+      תוצאה: pass ? "עובר" : "נכשל",
+    },
+    assumptions,
+    cautions: [
+      "זוהי הערכה תכנונית בלבד — הקביעה היא לפי מדידת RA לאחר ההתקנה.",
+      "בשיטת TT ההגנה מפני מגע עקיף תלויה במפסק הפחת; יש לבדוק אותו בלחצן ובמכשיר.",
+    ],
+    sources: SOURCES,
+    confidence: "medium",
+  }, [checkAtMost("התנגדות הארקה משוערת RA", rElectrode, limit, "Ω", "rcdProtection")]);
+}
+
+function moreRods(n: number) {
+  return n === 1 ? "נדרש עוד מוט אחד" : `נדרשים עוד ${n} מוטות`;
+}
@@ -0,0 +1,184 @@
+import type { Answer, SourceRef } from "../../types/answer";
+import { calcCableSize, STANDARD_BREAKERS, type InstallMethod } from "./cableSize";
+import { invalidInput, readQuantities, round } from "./quantity";
+import { voltageDropLimit, withCompliance } from "./regulations";
+import { calcVoltageDrop } from "./voltageDrop";
+
+export type EvChargerInput = {
+  connectionPhase: "1P" | "3P";
+  connectionA: number; // main breaker per phase, e.g. 25 for 3x25A
+  existingPeakA?: number; // measured peak on the most loaded phase
+  existingLoadKw?: number; // or the board's maximum demand
+  chargerKw: number;
+  chargerPhase: "1P" | "3P";
+  cableLengthM: number; // board to charger, one way
+  material?: "Cu" | "Al";
+  method?: InstallMethod; // default B1 (conduit)
+  insulation?: "PVC" | "XLPE";
+  vdropTargetPct?: number; // default the regulatory limit
+  chargerDcDetection?: boolean; // charger has built-in 6mA DC fault detection (RDC-DD, IEC 62955)
+};
+
+const U0 = 230;
+const UN = 400;
+const EXISTING_COS_PHI = 0.9;
+const CHARGER_COS_PHI = 1; // on-board chargers have active PFC
+const MIN_CHARGING_A = 6; // IEC 61851-1: the lowest current a charger may be told to draw
+const DLM_ADVISED_MARGIN = 0.2; // below this share of headroom left, load management is advised
+
+const SOURCES: SourceRef[] = [
+  { title: "המעגל – electric_vehicle_charging", section: "הנחיות חברת החשמל לעמדות טעינה", url: "https://iec-hamaagal.co.il/electric_vehicle_charging" },
+  { title: "IEC 60364-7-722", section: "722.311 (ללא מקדם בו-זמניות), 722.531 (פחת Type A/B)" },
+];
+
+export function calcEvCharger(raw: EvChargerInput): Answer {
+  const noExisting = raw.existingPeakA == null && raw.existingLoadKw == null;
+  const q = readQuantities(raw, {
+    connectionPhase: { label: "פאזות החיבור הקיים (1P/3P)", oneOf: ["1P", "3P"], required: true },
+    connectionA: { label: "גודל חיבור קיים (למשל 3x25A)", unit: "A", required: true, max: 630 },
+    existingPeakA: { label: "עומס קיים בלוח (A בפאזה העמוסה או kW)", unit: "A", required: noExisting, allowZero: true },
+    existingLoadKw: { label: "עומס קיים בלוח (kW)", unit: "kW", allowZero: true },
+    chargerKw: { label: "הספק המטען (kW)", unit: "kW", required: true, max: 350 },
+    chargerPhase: { label: "פאזות המטען (1P/3P)", oneOf: ["1P", "3P"], required: true },
+    cableLengthM: { label: "אורך הכבל מהלוח לעמדה", unit: "m", required: true, max: 1000 },
+    vdropTargetPct: { label: "נפילת מתח מותרת", unit: "%", max: 10 },
+    material: { label: "חומר מוליך (Cu/Al)", oneOf: ["Cu", "Al"] },
+    method: { label: "שיטת התקנה (A1/B1/C/D)", oneOf: ["A1", "B1", "C", "D"] },
+    insulation: { label: "סוג בידוד (PVC/XLPE)", oneOf: ["PVC", "XLPE"] },
+  });
+  if (q.errors.length) return invalidInput("תכנון עמדת טעינה לרכב חשמלי", q.errors, "חסרים נתונים לתכנון עמדת הטעינה.");
+
+  const i = { ...raw, ...q.values } as EvChargerInput;
+  if (i.chargerPhase === "3P" && i.connectionPhase === "1P") {
+    return {
+      kind: "calc",
+      title: "תכנון עמדת טעינה לרכב חשמלי",
+      bottomLine: "מטען תלת-פאזי אינו ניתן לחיבור לחיבור חד-פאזי.",
+      steps: ["בחר מטען חד-פאזי, או הגדל את החיבור לתלת-פאזי מול חברת החשמל."],
+      sources: SOURCES,
+      confidence: "low",
+    };
+  }
+
+  const k = i.connectionPhase === "3P" ? Math.sqrt(3) * UN : U0;
+  const existingA =
+    i.existingPeakA !== undefined ? i.existingPeakA : ((i.existingLoadKw ?? 0) * 1000) / (k * EXISTING_COS_PHI);
+
+  // A charger runs at full current for hours, so no diversity is applied (722.311).
+  const voltageV = i.chargerPhase === "3P" ? UN : U0;
+  const chargerA = (i.chargerKw * 1000) / ((i.chargerPhase === "3P" ? Math.sqrt(3) : 1) * voltageV * CHARGER_COS_PHI);
+  const breakerA = STANDARD_BREAKERS.find((b) => b >= chargerA);
+
+  // 1. Spare capacity on the most loaded phase.
+  const spareA = i.connectionA - existingA;
+  const enough = chargerA <= spareA;
+  const tight = enough && spareA - chargerA < i.connectionA * DLM_ADVISED_MARGIN;
+  const managedOk = !enough && spareA >= MIN_CHARGING_A;
+
+  // 2. Cable: ampacity for the breaker, then the voltage-drop minimum; the larger wins.
+  const material = i.material ?? "Cu";
+  const cable = calcCableSize({
+    designCurrentA: round(chargerA, 1),
+    method: i.method ?? "B1",
+    material,
+    insulation: i.insulation ?? "PVC",
+    phase: i.chargerPhase,
+    protectionA: breakerA,
+  });
+  const ampacityMm2 = Number(cable.values?.חתך_ממ2) || undefined;
+  const targetPct = i.vdropTargetPct ?? voltageDropLimit().pct;
+  const vd = calcVoltageDrop({
+    mode: "min_area",
+    phase: i.chargerPhase,
+    material,
+    lengthM: i.cableLengthM,
+    currentA: chargerA,
+    voltageV,
+    cosPhi: CHARGER_COS_PHI,
+    targetPct,
+  });
+  const vdropMm2 = Number(vd.values?.חתך_ממ2) || undefined;
+  const areaMm2 = ampacityMm2 && vdropMm2 ? Math.max(ampacityMm2, vdropMm2) : undefined;
+  const drop = areaMm2
+    ? calcVoltageDrop({
+        phase: i.chargerPhase,
+        material,
+        lengthM: i.cableLengthM,
+        currentA: chargerA,
+        areaMm2,
+        voltageV,
+        cosPhi: CHARGER_COS_PHI,
+      })
+    : undefined;
+
+  // 3. RCD: type A is blind to smooth DC leakage, so it needs the charger's 6mA DC detection.
+  const rcd =
+    i.chargerDcDetection === true
+      ? "Type A 30mA (המטען כולל זיהוי זליגת DC של 6mA)"
+      : i.chargerDcDetection === false
+        ? "Type B 30mA"
+        : "Type A 30mA + זיהוי DC 6mA במטען, אחרת Type B 30mA";
+
+  // 4. Dynamic load management.
+  const dlm = enough ? (tight ? "מומלץ" : "לא נדרש") : managedOk ? "נדרש" : "לא מספיק — נדרשת הגדלת חיבור";
+
+  const steps = [
+    enough
+      ? `החיבור מספיק: רזרבה ${round(spareA, 1)}A בפאזה העמוסה מול ${round(chargerA, 1)}A של המטען.`
+      : `החיבור אינו מספיק: רזרבה ${round(Math.max(spareA, 0), 1)}A בפאזה העמוסה מול ${round(chargerA, 1)}A של המטען.`,
+    areaMm2
+      ? `כבל ${areaMm2} ממ״ר ${material} (זרם מותר ${ampacityMm2} ממ״ר, נפילת מתח ${vdropMm2} ממ״ר), מפסק ${breakerA}A במעגל ייעודי.`
+      : "לא נמצא חתך מתאים בטבלאות — בדוק אורך ושיטת התקנה.",
+    `פחת: ${rcd}.`,
+    enough
+      ? tight
+        ? "ניהול עומסים דינמי מומלץ — נשאר מרווח קטן בחיבור."
+        : "ניהול עומסים דינמי אינו נדרש."
+      : managedOk
+        ? `ניהול עומסים דינמי נדרש: המטען יוגבל ל-${round(spareA, 0)}A בשעות שיא.`
+        : `גם עם ניהול עומסים נשארים פחות מ-${MIN_CHARGING_A}A לטעינה — נדרשת הגדלת חיבור.`,
+  ];
+
+  const cautions = [
+    "כל נקודת טעינה במעגל סופי ייעודי עם פחת משלה.",
+    "בהתקנה חיצונית יש להקפיד על דרגת הגנה (IP) ומיגון מכני מתאימים.",
+    "בשיטת TN-C-S יש לבדוק את הדרישות לשבר PEN בעמדה חיצונית, או לעבור לאלקטרודה נפרדת (TT) לעמדה.",
+  ];
+  if (i.connectionPhase === "3P" && i.chargerPhase === "1P") {
+    cautions.push("מטען חד-פאזי על חיבור תלת: חבר אותו לפאזה הפחות עמוסה; הרזרבה חושבה לפאזה העמוסה (המקרה הגרוע).");
+  }
+
+  const values: Record<string, number | string> = {
+    חיבור: `${i.connectionPhase === "3P" ? "3x" : "1x"}${i.connectionA}A`,
+    עומס_קיים_אמפר: round(existingA, 1),
+    רזרבה_אמפר: round(spareA, 1),
+    הספק_מטען_kW: i.chargerKw,
+    זרם_מטען_אמפר: round(chargerA, 1),
+    מפסק_אמפר: breakerA ?? "לא נקבע",
+    חתך_לפי_זרם_ממ2: ampacityMm2 ?? "לא נקבע",
+    חתך_לפי_נפילת_מתח_ממ2: vdropMm2 ?? "לא נקבע",
+    חתך_נבחר_ממ2: areaMm2 ?? "לא נקבע",
+    סוג_פחת: rcd,
+    ניהול_עומסים: dlm,
+  };
+  if (drop?.values?.נפילה_אחוז !== undefined) values.נפילת_מתח_אחוז = drop.values.נפילה_אחוז;
+
+  const answer: Answer = {
+    kind: "calc",
+    title: "תכנון עמדת טעינה לרכב חשמלי",
+    bottomLine: `${enough ? "החיבור מספיק" : managedOk ? "החיבור מספיק רק עם ניהול עומסים" : "נדרשת הגדלת חיבור"}; כבל ${
+      areaMm2 ?? "?"
+    } ממ״ר, מפסק ${breakerA ?? "?"}A, פחת ${i.chargerDcDetection === false ? "Type B" : "Type A + זיהוי DC"}`,
+    steps,
+    values,
+    assumptions: [
+      "המטען מחושב בזרם מלא לאורך זמן, ללא מקדם בו-זמניות.",
+      `העומס הקיים נלקח מהפאזה העמוסה${i.existingPeakA !== undefined ? "" : `, מהספק ב-cosφ=${EXISTING_COS_PHI}`}.`,
+      `נפילת מתח מותרת במעגל הטעינה ${targetPct}%.`,
+    ],
+    cautions,
+    sources: SOURCES,
+    confidence: areaMm2 && (enough || managedOk) ? "medium" : "low",
+  };
+  return drop?.compliance ? withCompliance(answer, drop.compliance.checks) : answer;
+}
@@ -0,0 +1,273 @@
+import type { Answer } from "../../types/answer";
+import { calcCableSize, STANDARD_BREAKERS, type InstallMethod } from "./cableSize";
+import { clamp, invalidInput, readQuantities, round, type ValidationError } from "./quantity";
+
+export type PhaseName = "L1" | "L2" | "L3";
+
+export type LoadCircuit = {
+  label: string;
+  value: number;
+  unit: "kW" | "kVA";
+  phase: "1P" | "3P";
+  cosPhi?: number;
+  demandFactor?: number; // share of the installed load expected to run, 0..1
+  fixedPhase?: PhaseName; // keeps a single-phase circuit on a given phase
+};
+
+export type LoadScheduleInput = {
+  circuits: LoadCircuit[];
+  voltageV?: number; // line voltage, default 400V
+  diversityFactor?: number; // board-level coincidence factor applied on top of the demand factors
+  sparePct?: number; // growth margin added before sizing the main breaker
+  feederMethod?: InstallMethod;
+  feederMaterial?: "Cu" | "Al";
+  feederInsulation?: "PVC" | "XLPE";
+};
+
+export type ScheduledCircuit = LoadCircuit & {
+  phases: PhaseName[];
+  demandKw: number;
+  demandKvar: number;
+  currentA: number;
+};
+
+export type PhaseLoad = { phase: PhaseName; kw: number; kvar: number; kva: number; currentA: number; circuits: string[] };
+
+export type LoadSchedule = {
+  circuits: ScheduledCircuit[];
+  phases: PhaseLoad[];
+  neutralA: number;
+  imbalancePct: number;
+  installedKw: number;
+  demandKw: number;
+  demandKva: number;
+  mainBreakerA?: number;
+  feederMm2?: number;
+  feederSummary: string;
+};
+
+const PHASES: PhaseName[] = ["L1", "L2", "L3"];
+const PHASE_ANGLE: Record<PhaseName, number> = { L1: 0, L2: (-2 * Math.PI) / 3, L3: (2 * Math.PI) / 3 };
+const DEFAULT_VOLTAGE_V = 400;
+const DEFAULT_COS_PHI = 0.9;
+
+export function buildLoadSchedule(i: LoadScheduleInput): LoadSchedule {
+  const un = i.voltageV ?? DEFAULT_VOLTAGE_V;
+  const u0 = un / Math.sqrt(3);
+  const diversity = clamp(i.diversityFactor ?? 1, 0.1, 1);
+  const totals = new Map(PHASES.map((p) => [p, { kw: 0, kvar: 0, circuits: [] as string[] }]));
+
+  const place = (c: LoadCircuit, phases: PhaseName[], kw: number, kvar: number) => {
+    for (const p of phases) {
+      const t = totals.get(p)!;
+      t.kw += kw / phases.length;
+      t.kvar += kvar / phases.length;
+      t.circuits.push(c.label);
+    }
+  };
+  const phaseCurrent = (p: PhaseName) => {
+    const t = totals.get(p)!;
+    return (Math.hypot(t.kw, t.kvar) * 1000) / u0;
+  };
+
+  const demand = i.circuits.map((c) => {
+    const cosPhi = clamp(c.cosPhi ?? DEFAULT_COS_PHI, 0.1, 1);
+    const kva = c.unit === "kVA" ? c.value : c.value / cosPhi;
+    const df = clamp(c.demandFactor ?? 1, 0, 1);
+    return { c, kw: kva * cosPhi * df, kvar: kva * Math.sqrt(1 - cosPhi * cosPhi) * df, kva: kva * df };
+  });
+
+  // Three-phase and pinned circuits first, then the largest single-phase loads go to the lightest phase.
+  const scheduled = new Map<LoadCircuit, PhaseName[]>();
+  for (const d of demand) {
+    if (d.c.phase === "3P") scheduled.set(d.c, PHASES);
+    else if (d.c.fixedPhase) scheduled.set(d.c, [d.c.fixedPhase]);
+    else continue;
+    place(d.c, scheduled.get(d.c)!, d.kw, d.kvar);
+  }
+  const free = demand.filter((d) => !scheduled.has(d.c)).sort((a, b) => b.kva - a.kva);
+  for (const d of free) {
+    const lightest = PHASES.reduce((best, p) => (phaseCurrent(p) < phaseCurrent(best) ? p : best), PHASES[0]);
+    scheduled.set(d.c, [lightest]);
+    place(d.c, [lightest], d.kw, d.kvar);
+  }
+
+  const circuits: ScheduledCircuit[] = demand.map((d) => ({
+    ...d.c,
+    phases: scheduled.get(d.c)!,
+    demandKw: round(d.kw, 2),
+    demandKvar: round(d.kvar, 2),
+    currentA: round((d.kva * 1000) / (d.c.phase === "3P" ? Math.sqrt(3) * un : u0), 1),
+  }));
+
+  const phases: PhaseLoad[] = PHASES.map((p) => {
+    const t = totals.get(p)!;
+    return {
+      phase: p,
+      kw: round(t.kw * diversity, 2),
+      kvar: round(t.kvar * diversity, 2),
+      kva: round(Math.hypot(t.kw, t.kvar) * diversity, 2),
+      currentA: round(phaseCurrent(p) * diversity, 1),
+      circuits: t.circuits,
+    };
+  });
+
+  // Neutral = phasor sum of the three phase currents, each lagging by its own power factor angle.
+  let nRe = 0;
+  let nIm = 0;
+  for (const p of PHASES) {
+    const t = totals.get(p)!;
+    const re = (t.kw * 1000 * diversity) / u0;
+    const im = (-t.kvar * 1000 * diversity) / u0;
+    nRe += re * Math.cos(PHASE_ANGLE[p]) - im * Math.sin(PHASE_ANGLE[p]);
+    nIm += re * Math.sin(PHASE_ANGLE[p]) + im * Math.cos(PHASE_ANGLE[p]);
+  }
+
+  const currents = phases.map((p) => p.currentA);
+  const maxA = Math.max(...currents);
+  const avgA = currents.reduce((s, x) => s + x, 0) / 3;
+  const designA = maxA * (1 + Math.max(0, i.sparePct ?? 0) / 100);
+  const mainBreakerA = STANDARD_BREAKERS.find((b) => b >= designA);
+
+  const feeder = mainBreakerA
+    ? calcCableSize({
+        designCurrentA: round(designA, 1),
+        protectionA: mainBreakerA,
+        method: i.feederMethod ?? "C",
+        material: i.feederMaterial ?? "Cu",
+        insulation: i.feederInsulation ?? "XLPE",
+        phase: "3P",
+      })
+    : undefined;
+  const feederMm2 = Number(feeder?.values?.חתך_ממ2) || undefined;
+
+  const totalKw = phases.reduce((s, p) => s + p.kw, 0);
+  const totalKvar = phases.reduce((s, p) => s + p.kvar, 0);
+  return {
+    circuits,
+    phases,
+    neutralA: round(Math.hypot(nRe, nIm), 1),
+    imbalancePct: avgA > 0 ? round(((maxA - avgA) / avgA) * 100, 1) : 0,
+    installedKw: round(
+      i.circuits.reduce((s, c) => s + (c.unit === "kW" ? c.value : c.value * clamp(c.cosPhi ?? DEFAULT_COS_PHI, 0.1, 1)), 0),
+      2
+    ),
+    demandKw: round(totalKw, 2),
+    demandKva: round(Math.hypot(totalKw, totalKvar), 2),
+    mainBreakerA,
+    feederMm2,
+    feederSummary: feeder?.bottomLine ?? "",
+  };
+}
+
+export function calcLoadSchedule(raw: LoadScheduleInput): Answer {
+  const q = readQuantities(raw, {
+    voltageV: { label: "מתח שלוב", unit: "V" },
+    diversityFactor: { label: "מקדם בו-זמניות", dimension: "ratio" },
+    sparePct: { label: "רזרבה באחוזים", unit: "%", min: 0, max: 200 },
+    feederMethod: { label: "שיטת התקנת ההזנה (A1/B1/C/D)", oneOf: ["A1", "B1", "C", "D"] },
+    feederMaterial: { label: "חומר מוליך ההזנה (Cu/Al)", oneOf: ["Cu", "Al"] },
+    feederInsulation: { label: "בידוד ההזנה (PVC/XLPE)", oneOf: ["PVC", "XLPE"] },
+  });
+  const errors: ValidationError[] = [...q.errors];
+  if (!raw.circuits?.length) {
+    errors.push({ field: "circuits", label: "מעגלים", code: "missing", message: "רשימת מעגלים: שם, הספק ויחידות, חד/תלת-פאזי" });
+  }
+  const circuits = (raw.circuits || []).map((c, k) => {
+    const cq = readQuantities(c, {
+      value: { label: "הספק חיובי לכל מעגל", unit: c.unit === "kVA" ? "kVA" : "kW", required: true },
+      cosPhi: { label: "cosφ", dimension: "ratio" },
+      demandFactor: { label: "מקדם ביקוש", dimension: "ratio" },
+      unit: { label: "יחידות הספק (kW/kVA)", oneOf: ["kW", "kVA"], required: true },
+      phase: { label: "פאזה (1P/3P)", oneOf: ["1P", "3P"], required: true },
+      fixedPhase: { label: "פאזה קבועה (L1/L2/L3)", oneOf: ["L1", "L2", "L3"] },
+    });
+    const name = c.label || `מעגל ${k + 1}`;
+    errors.push(...cq.errors.map((e) => ({ ...e, field: `circuits[${k}].${e.field}`, message: `${name}: ${e.message}` })));
+    return { ...c, ...cq.values } as LoadCircuit;
+  });
+  if (errors.length) return invalidInput("טבלת עומסים ללוח", errors, "חסרים נתונים לבניית טבלת העומסים.");
+
+  const i = { ...raw, ...q.values, circuits } as LoadScheduleInput;
+  const s = buildLoadSchedule(i);
+  const values: Record<string, number | string> = {};
+  for (const p of s.phases) {
+    values[`${p.phase}_הספק_kW`] = p.kw;
+    values[`${p.phase}_הספק_kVA`] = p.kva;
+    values[`${p.phase}_זרם_אמפר`] = p.currentA;
+    values[`${p.phase}_מעגלים`] = p.circuits.join(", ") || "—";
+  }
+  Object.assign(values, {
+    זרם_אפס_אמפר: s.neutralA,
+    אי_איזון_אחוז: s.imbalancePct,
+    הספק_מותקן_kW: s.installedKw,
+    הספק_ביקוש_kW: s.demandKw,
+    הספק_ביקוש_kVA: s.demandKva,
+    מקדם_בו_זמניות: clamp(i.diversityFactor ?? 1, 0.1, 1),
+    מפסק_ראשי_אמפר: s.mainBreakerA ?? "מעל הטבלה",
+    חתך_הזנה_ממ2: s.feederMm2 ?? "לא נקבע",
+  });
+
+  const cautions: string[] = [];
+  if (s.imbalancePct > 20) cautions.push("אי-איזון מעל 20% — שקול לפצל מעגלים גדולים או להעביר עומסים בין הפאזות.");
+  if (!s.mainBreakerA) cautions.push("זרם הביקוש גבוה מטבלת המפסקים המובנית — בחר מפסק ראשי והזנה ידנית.");
+  cautions.push("זרם האפס חושב להרמוניה היסודית בלבד; עומסים לא ליניאריים (ספקים, LED, ממירים) מגדילים אותו.");
+
+  return {
+    kind: "calc",
+    title: "טבלת עומסים ללוח",
+    bottomLine: s.mainBreakerA
+      ? `ביקוש ${s.demandKva} kVA, פאזה עמוסה ${Math.max(...s.phases.map((p) => p.currentA))}A — מפסק ראשי מוצע 3x${s.mainBreakerA}A${s.feederMm2 ? `, הזנה ${s.feederMm2} ממ״ר` : ""}.`
+      : `ביקוש ${s.demandKva} kVA — מעבר לטבלת המפסקים המובנית.`,
+    steps: [
+      "לכל מעגל חושב הספק הביקוש (הספק × מקדם ביקוש) ורכיב ריאקטיבי לפי cosφ.",
+      "מעגלים תלת-פאזיים מתחלקים שווה; מעגלים חד-פאזיים שובצו מהגדול לקטן לפאזה הפחות עמוסה.",
+      "על סכום כל פאזה הוחל מקדם בו-זמניות של הלוח.",
+      `מפסק ראשי לפי הפאזה העמוסה${i.sparePct ? ` + ${i.sparePct}% רזרבה` : ""}; ${s.feederSummary || "חתך ההזנה לא נקבע"}.`,
+      "בדוק בנוסף נפילת מתח וזרם קצר להזנה לפני אישור סופי.",
+    ],
+    values,
+    assumptions: [
+      `מתח ${i.voltageV ?? DEFAULT_VOLTAGE_V}V שלוב; cosφ ${DEFAULT_COS_PHI} כשלא הוזן.`,
+      "הזנה בשיטת התקנה C, נחושת XLPE, אלא אם הוגדר אחרת.",
+    ],
+    cautions,
+    attachment: {
+      filename: "load-schedule.csv",
+      mimeType: "text/csv",
+      content: loadScheduleCsv(s),
+    },
+    confidence: "medium",
+  };
+}
+
+// Customer-file export: one row per circuit, then the per-phase summary. BOM keeps Hebrew readable in Excel.
+export function loadScheduleCsv(s: LoadSchedule): string {
+  const rows: (string | number)[][] = [
+    ["מעגל", "פאזה", "הספק", "יחידות", "cosφ", "מקדם ביקוש", "ביקוש kW", "זרם A"],
+    ...s.circuits.map((c) => [
+      c.label,
+      c.phases.join("+"),
+      c.value,
+      c.unit,
+      c.cosPhi ?? DEFAULT_COS_PHI,
+      c.demandFactor ?? 1,
+      c.demandKw,
+      c.currentA,
+    ]),
+    [],
+    ["פאזה", "kW", "kVA", "זרם A"],
+    ...s.phases.map((p) => [p.phase, p.kw, p.kva, p.currentA]),
+    ["N", "", "", s.neutralA],
+    [],
+    ["אי-איזון %", s.imbalancePct],
+    ["מפסק ראשי A", s.mainBreakerA ?? ""],
+    ["חתך הזנה ממ״ר", s.feederMm2 ?? ""],
+  ];
+  return "\uFEFF" + rows.map((r) => r.map(csvCell).join(",")).join("\r\n");
+}
+
+function csvCell(v: string | number) {
+  const t = String(v);
+  return /[",\r\n]/.test(t) ? `"${t.replace(/"/g, '""')}"` : t;
+}
@@ -0,0 +1,174 @@
+import type { Answer } from "../../types/answer";
+import type { ChatState } from "../../types/chat";
+import { invalidInput, readQuantities, round, type ValidationError } from "./quantity";
+import { ADJUSTABLE_BREAKER_MAX_S, checkAtMost, withCompliance, type Regulation } from "./regulations";
+
+export type LoopFaultSlots = ChatState["slots"];
+
+export type McbCurve = "B" | "C" | "D";
+
+// Instantaneous trip multiple of In per MCB curve (upper bound of the magnetic band).
+const CURVE_MULTIPLE: Record<McbCurve, number> = { B: 5, C: 10, D: 20 };
+
+const U0 = 230; // nominal voltage to earth, also on 400V three-phase systems
+const TOUCH_LIMIT_V = 50;
+
+export function parseProtection(s: string | undefined): { curve: McbCurve; ratingA: number } | null {
+  const t = (s || "").toUpperCase().replace(/\s+/g, "");
+  const m = t.match(/^([BCD])(\d{1,3})A?$/) || t.match(/^(\d{1,3})A?([BCD])$/);
+  if (!m) return null;
+  const [curve, rating] = /^\d/.test(m[1]) ? [m[2], m[1]] : [m[1], m[2]];
+  return { curve: curve as McbCurve, ratingA: Number(rating) };
+}
+
+// Required disconnection time per IEC 60364-4-41 table 41.1 (U0 = 230V).
+function disconnectionTimeS(system: "TT" | "TN", ratingA: number) {
+  if (ratingA > 32) return system === "TT" ? 1 : 5;
+  return system === "TT" ? 0.2 : 0.4;
+}
+
+export function verifyLoopFault(slots: LoopFaultSlots): Answer {
+  const errors: ValidationError[] = [];
+  const need = (field: string, label: string) => errors.push({ field, label, code: "missing", message: label });
+  if (!slots.measurement_type) need("measurement_type", "סוג מדידה (RA / Zs / PE)");
+  const q = readQuantities(slots, {
+    value_ohm: { label: "ערך נמדד באוהם", unit: "Ω", required: true },
+    rcd_ma: { label: "רגישות מפסק הפחת (30/100/300 mA)", unit: "mA", oneOf: [30, 100, 300] },
+  });
+  errors.push(...q.errors);
+  if (!slots.system || slots.system === "UNKNOWN") need("system", "שיטת הארקה (TT / TN)");
+
+  const rcdMa = q.values.rcd_ma;
+  const ttWithRcd = slots.system === "TT" && rcdMa !== undefined;
+  const protection = parseProtection(slots.protection);
+  if (!ttWithRcd && !protection) need("protection", "הגנה (עקומה וזרם, למשל C16)");
+
+  if (errors.length) {
+    return withCompliance(
+      {
+        ...invalidInput("בדיקת לולאת תקלה", errors, "חסרים נתונים כדי לאמת את המדידה."),
+        followUpQuestion: `שלח לי: ${errors[0].message}`,
+      },
+      []
+    );
+  }
+
+  const measured = q.values.value_ohm as number;
+  const system = slots.system as "TT" | "TN";
+
+  // TT with RCD: the RCD does the disconnection, so only RA × IΔn ≤ 50V matters.
+  if (ttWithRcd) {
+    const idnA = (rcdMa as number) / 1000;
+    const limit = TOUCH_LIMIT_V / idnA;
+    const touchV = measured * idnA;
+    return verdict({
+      title: "בדיקת הארקה בשיטת TT",
+      pass: measured <= limit,
+      measured,
+      limit,
+      check: `RA × IΔn = ${round(touchV, 2)}V ≤ ${TOUCH_LIMIT_V}V`,
+      label: "התנגדות הארקה RA",
+      reg: "rcdProtection",
+      values: {
+        שיטה: "TT",
+        סוג_מדידה: slots.measurement_type as string,
+        רגישות_פחת_mA: rcdMa as number,
+        מתח_מגע_וולט: round(touchV, 2),
+        זמן_ניתוק_נדרש_שניות: disconnectionTimeS("TT", protection?.ratingA ?? 0),
+      },
+      assumptions: [
+        "ההגנה בפני מגע עקיף מתבצעת על ידי מפסק הפחת.",
+        "ערך RA כולל את התנגדות האלקטרודה ומוליכי ההארקה.",
+      ],
+    });
+  }
+
+  const { curve, ratingA } = protection as { curve: McbCurve; ratingA: number };
+  const ia = CURVE_MULTIPLE[curve] * ratingA;
+  const tripTime = disconnectionTimeS(system, ratingA);
+
+  if (slots.measurement_type === "PE") {
+    const limit = TOUCH_LIMIT_V / ia;
+    return verdict({
+      title: "בדיקת רציפות מוליך הגנה",
+      pass: measured <= limit,
+      measured,
+      limit,
+      check: `R_PE ≤ 50V / Ia = ${round(limit, 3)}Ω`,
+      label: "התנגדות מוליך ההגנה R_PE",
+      reg: "faultLoop",
+      values: { שיטה: system, הגנה: `${curve}${ratingA}`, זרם_ניתוק_Ia: ia },
+      assumptions: ["מגבלת R_PE לפי תנאי מתח מגע של 50V בזרם הניתוק המיידי."],
+    });
+  }
+
+  // ZS in TN, or RA in TT protected by the overcurrent device alone.
+  const isRa = slots.measurement_type === "RA";
+  const limit = isRa ? TOUCH_LIMIT_V / ia : U0 / ia;
+  return verdict({
+    title: isRa ? "בדיקת הארקה בשיטת TT" : "בדיקת עכבת לולאת תקלה (Zs)",
+    pass: measured <= limit,
+    measured,
+    limit,
+    check: isRa ? `RA × Ia ≤ ${TOUCH_LIMIT_V}V` : `Zs × Ia ≤ U0 (${U0}V)`,
+    label: isRa ? "התנגדות הארקה RA" : "עכבת לולאת התקלה Zs",
+    reg: "faultLoop",
+    values: {
+      שיטה: system,
+      הגנה: `${curve}${ratingA}`,
+      זרם_ניתוק_Ia: ia,
+      זמן_ניתוק_נדרש_שניות: tripTime,
+    },
+    assumptions: [
+      `Ia = ${CURVE_MULTIPLE[curve]}×In לעקומה ${curve}, ניתוק מיידי שעומד בזמן ${tripTime}s.`,
+      `תקנה 42 מתירה עד ${ADJUSTABLE_BREAKER_MAX_S} שניות במפסק מתכוונן; הבדיקה כאן לפי ניתוק מיידי ולכן מחמירה.`,
+      "ערך המדידה בטמפרטורת סביבה; בטמפרטורת עבודה העכבה גבוהה יותר.",
+    ],
+    extraCautions:
+      isRa || system === "TT"
+        ? ["ב-TT ללא פחת קשה מאוד לעמוד בדרישה — מומלץ להתקין מפסק פחת."]
+        : [],
+  });
+}
+
+function verdict(v: {
+  title: string;
+  pass: boolean;
+  measured: number;
+  limit: number;
+  check: string;
+  label: string; // what was measured, for the compliance check
+  reg: Regulation;
+  values: Record<string, number | string>;
+  assumptions: string[];
+  extraCautions?: string[];
+}): Answer {
+  const marginPct = ((v.limit - v.measured) / v.limit) * 100;
+  return withCompliance({
+    kind: "calc",
+    title: v.title,
+    bottomLine: v.pass
+      ? `תקין: ${round(v.measured, 3)}Ω ≤ ${round(v.limit, 3)}Ω (מרווח ${round(marginPct, 1)}%)`
+      : `לא תקין: ${round(v.measured, 3)}Ω > ${round(v.limit, 3)}Ω (חריגה ${round(-marginPct, 1)}%)`,
+    steps: v.pass
+      ? [`תנאי הבדיקה: ${v.check}.`, "תעד את המדידה בטופס הבדיקה."]
+      : [
+          `תנאי הבדיקה: ${v.check} — לא מתקיים.`,
+          "בדוק חיבורי הארקה/אפס, מהדקים רופפים ורציפות מוליך ההגנה.",
+          "אם אין שיפור — הקטן את זרם ההגנה, הגדל חתך או הוסף מפסק פחת.",
+        ],
+    values: {
+      ...v.values,
+      ערך_נמדד_אוהם: round(v.measured, 3),
+      ערך_מרבי_אוהם: round(v.limit, 3),
+      מרווח_אחוז: round(marginPct, 1),
+      תוצאה: v.pass ? "עובר" : "נכשל",
+    },
+    assumptions: v.assumptions,
+    cautions: [
+      ...(v.extraCautions || []),
+      "המדידה וההחלטה באחריות חשמלאי בעל רישיון מתאים.",
+    ],
+    confidence: "high",
+  }, [checkAtMost(v.label, v.measured, v.limit, "Ω", v.reg)]);
+}
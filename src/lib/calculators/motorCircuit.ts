@@ -0,0 +1,234 @@
+import type { Answer, ComplianceCheck } from "../../types/answer";
+import { STANDARD_BREAKERS } from "./cableSize";
+import { segmentDrop, type VDropSegment } from "./voltageDrop";
+import { clamp, convert, invalidInput, readQuantities, round, type ValidationError } from "./quantity";
+import { checkAtMost, voltageDropLimit, withCompliance } from "./regulations";
+
+export type MotorStartMethod = "DOL" | "star_delta" | "soft_starter" | "vfd";
+
+export type MotorCircuitInput = {
+  power: number; // rated shaft output from the nameplate
+  unit: "kW" | "HP";
+  phase?: "1P" | "3P"; // default 3P
+  voltageV?: number; // default 400V (3P) / 230V (1P)
+  cosPhi?: number; // nameplate; typical value by size when missing
+  efficiency?: number; // nameplate; typical IE3 value by size when missing
+  startMethod?: MotorStartMethod; // default DOL
+  startCurrentRatio?: number; // locked-rotor IA/IN from the nameplate (direct-on-line)
+  softStarterLimit?: number; // soft starter current limit, ×IN
+  startTimeS?: number; // run-up time, decides the overload trip class
+  cable?: Pick<VDropSegment, "material" | "lengthM" | "areaMm2" | "reactanceOhmPerKm">; // supply cable from the board
+};
+
+// Typical 4-pole IE3 motors: [kW, efficiency, cosφ], used when the nameplate values are not given.
+const TYPICAL: [number, number, number][] = [
+  [0.75, 0.825, 0.75], [1.5, 0.85, 0.79], [3, 0.87, 0.81], [5.5, 0.9, 0.83],
+  [11, 0.915, 0.85], [22, 0.93, 0.86], [45, 0.945, 0.86], [90, 0.953, 0.87],
+];
+
+const DEFAULT_START_RATIO = 7; // IA/IN of a standard cage motor
+const DEFAULT_SOFT_STARTER_LIMIT = 3.5;
+const VFD_START_RATIO = 1.5; // drive current limit; the supply side stays at or below it
+const STARTING_COS_PHI = 0.3; // locked-rotor power factor of a cage motor
+const VFD_INPUT_COS_PHI = 0.95; // displacement factor at the drive input
+
+// Margin between the RMS starting current and the lowest magnetic trip threshold:
+// covers the asymmetric first peak on DOL and the star-delta changeover transient.
+const INRUSH_MARGIN: Record<MotorStartMethod, number> = { DOL: 1.7, star_delta: 1.7, soft_starter: 1.2, vfd: 1.2 };
+
+// Lower bound of the instantaneous trip band (×In), IEC 60898-1.
+const CURVES: { curve: "C" | "D"; magnetic: number }[] = [
+  { curve: "C", magnetic: 5 },
+  { curve: "D", magnetic: 10 },
+];
+
+const CONDUCTOR_TEMP_C = 70;
+const START_DIP_LIMIT_PCT = 10;
+
+const METHOD_LABEL: Record<MotorStartMethod, string> = {
+  DOL: "התנעה ישירה (DOL)",
+  star_delta: "כוכב-משולש",
+  soft_starter: "מתנע רך",
+  vfd: "ממיר תדר (VFD)",
+};
+
+function typical(kw: number) {
+  let row = TYPICAL[0];
+  for (const r of TYPICAL) {
+    if (kw >= r[0]) row = r;
+  }
+  return { efficiency: row[1], cosPhi: row[2] };
+}
+
+function startRatio(i: MotorCircuitInput, method: MotorStartMethod) {
+  const locked = i.startCurrentRatio ?? DEFAULT_START_RATIO;
+  if (method === "star_delta") return locked / 3;
+  if (method === "soft_starter") return Math.min(locked, i.softStarterLimit ?? DEFAULT_SOFT_STARTER_LIMIT);
+  if (method === "vfd") return VFD_START_RATIO;
+  return locked;
+}
+
+// Smallest standard breaker and curve whose magnetic threshold clears the start.
+function selectBreaker(runA: number, needA: number) {
+  for (const b of STANDARD_BREAKERS) {
+    if (b < runA) continue;
+    const c = CURVES.find((k) => k.magnetic * b >= needA);
+    if (c) return { breakerA: b, curve: c.curve, magneticA: c.magnetic * b };
+  }
+  return undefined;
+}
+
+function tripClass(startTimeS?: number) {
+  if (startTimeS === undefined || startTimeS <= 10) return "10";
+  if (startTimeS <= 20) return "20";
+  return "30";
+}
+
+export function calcMotorCircuit(raw: MotorCircuitInput): Answer {
+  const q = readQuantities(raw, {
+    power: { label: "הספק מנוע (kW או HP)", unit: raw.unit === "HP" ? "HP" : "kW", required: true },
+    voltageV: { label: "מתח הזנה", unit: "V" },
+    cosPhi: { label: "cosφ", dimension: "ratio" },
+    efficiency: { label: "נצילות", dimension: "ratio" },
+    startCurrentRatio: { label: "יחס זרם התנעה IA/IN", dimension: "ratio", min: 1, max: 12 },
+    softStarterLimit: { label: "הגבלת זרם המתנע הרך", dimension: "ratio", min: 1, max: 7 },
+    startTimeS: { label: "זמן התנעה", unit: "s", max: 120 },
+    unit: { label: "יחידות הספק (kW/HP)", oneOf: ["kW", "HP"], required: true },
+    phase: { label: "פאזה (1P/3P)", oneOf: ["1P", "3P"] },
+    startMethod: { label: "שיטת התנעה (DOL/star_delta/soft_starter/vfd)", oneOf: ["DOL", "star_delta", "soft_starter", "vfd"] },
+  });
+  const errors: ValidationError[] = [...q.errors];
+  let cable = raw.cable;
+  if (cable) {
+    const cq = readQuantities(cable, {
+      lengthM: { label: "אורך כבל ההזנה", unit: "m", required: true },
+      areaMm2: { label: "חתך כבל ההזנה", unit: "mm²", required: true },
+      material: { label: "חומר כבל ההזנה (Cu/Al)", oneOf: ["Cu", "Al"], required: true },
+    });
+    errors.push(...cq.errors.map((e) => ({ ...e, field: `cable.${e.field}` })));
+    cable = { ...cable, ...cq.values } as MotorCircuitInput["cable"];
+  }
+  if (errors.length) return invalidInput("מעגל מנוע: התנעה והגנות", errors, "חסרים נתונים לחישוב מעגל המנוע.");
+
+  const i = { ...raw, ...q.values, cable } as MotorCircuitInput;
+  const phase = i.phase ?? "3P";
+  const method = i.startMethod ?? "DOL";
+  const voltageV = i.voltageV ?? (phase === "3P" ? 400 : 230);
+  const kw = convert(i.power, i.unit === "HP" ? "HP" : "kW", "kW");
+  if (method === "star_delta" && phase === "1P") {
+    return {
+      kind: "calc",
+      title: "מעגל מנוע: התנעה והגנות",
+      bottomLine: "התנעת כוכב-משולש אפשרית רק במנוע תלת-פאזי עם 6 הדקים.",
+      steps: ["במנוע חד-פאזי בחר התנעה ישירה, מתנע רך או ממיר תדר."],
+      confidence: "low",
+    };
+  }
+
+  const t = typical(kw);
+  const cosPhi = clamp(i.cosPhi ?? t.cosPhi, 0.1, 1);
+  const eff = clamp(i.efficiency ?? t.efficiency, 0.1, 1);
+  const k = phase === "3P" ? Math.sqrt(3) : 1;
+  const runA = (kw * 1000) / (k * voltageV * cosPhi * eff);
+  const ratio = startRatio(i, method);
+  const startA = runA * ratio;
+
+  const assumptions = [
+    `זרם נומינלי לפי הספק ציר: I = P / (${phase === "3P" ? "√3·" : ""}U·cosφ·η).`,
+    method === "star_delta"
+      ? "בכוכב-משולש זרם ההתנעה מהרשת הוא שליש מזרם ההתנעה הישירה."
+      : method === "vfd"
+        ? `בממיר תדר זרם ההתנעה מוגבל ע״י הממיר (עד ${VFD_START_RATIO}×IN).`
+        : `יחס זרם התנעה IA/IN=${round(ratio, 2)}${method === "soft_starter" ? " (הגבלת זרם של המתנע הרך)" : ""}.`,
+  ];
+  if (i.cosPhi === undefined || i.efficiency === undefined) {
+    assumptions.push("cosφ ו/או נצילות חסרים — נלקחו ערכים טיפוסיים למנוע IE3 בגודל זה.");
+  }
+  if (i.startCurrentRatio === undefined && method !== "vfd") {
+    assumptions.push(`יחס זרם נעילה לא הוזן — הונח IA/IN=${DEFAULT_START_RATIO} למנוע כלוב סטנדרטי.`);
+  }
+
+  const cautions = ["יש לאמת את כיול ההגנות מול לוחית המנוע וטבלאות התיאום של יצרן המפסק והמגען."];
+
+  const breaker = selectBreaker(runA, startA * INRUSH_MARGIN[method]);
+  if (!breaker) {
+    cautions.push("לא נמצא מפסק זעיר מתאים — נדרש מפסק מוגן-מנוע (MPCB) או מפסק תעשייתי (MCCB) מכויל.");
+  } else if (breaker.breakerA > STANDARD_BREAKERS.find((b) => b >= runA)!) {
+    cautions.push(
+      `המפסק הוגדל ל-${breaker.breakerA}A בגלל זרם ההתנעה; הכבל מוגן מעומס-יתר ע״י הממסר בלבד ויש לתאם את חתכו להגנת הקצר.`
+    );
+  }
+
+  const overloadA = method === "star_delta" ? runA / Math.sqrt(3) : runA;
+  const tClass = tripClass(i.startTimeS);
+  if (tClass !== "10") cautions.push(`זמן התנעה ארוך — נדרש ממסר עומס-יתר מחלקה ${tClass}.`);
+
+  const values: Record<string, number | string> = {
+    הספק_kW: round(kw, 2),
+    פאזה: phase,
+    מתח_וולט: voltageV,
+    שיטת_התנעה: METHOD_LABEL[method],
+    cos_phi: round(cosPhi, 2),
+    נצילות: round(eff, 3),
+    זרם_נומינלי_אמפר: round(runA, 1),
+    יחס_זרם_התנעה: round(ratio, 2),
+    זרם_התנעה_אמפר: round(startA, 1),
+    מפסק_אמפר: breaker?.breakerA ?? "לא נקבע",
+    עקומת_מפסק: breaker?.curve ?? "לא נקבע",
+    סף_מגנטי_אמפר: breaker ? breaker.magneticA : "לא נקבע",
+    כיול_ממסר_אמפר: method === "vfd" ? `${round(runA, 1)} (פרמטר בממיר)` : round(overloadA, 1),
+    מחלקת_ממסר: tClass,
+  };
+
+  let dipOk = true;
+  const checks: ComplianceCheck[] = [];
+  if (i.cable) {
+    const seg = { ...i.cable, phase, voltageV };
+    const startCos = method === "vfd" ? VFD_INPUT_COS_PHI : STARTING_COS_PHI;
+    const dip = segmentDrop({ ...seg, currentA: startA, cosPhi: startCos }, CONDUCTOR_TEMP_C);
+    const run = segmentDrop({ ...seg, currentA: runA, cosPhi }, CONDUCTOR_TEMP_C);
+    values.נפילת_מתח_בהתנעה_אחוז = round(dip.pct, 2);
+    values.נפילת_מתח_בעבודה_אחוז = round(run.pct, 2);
+    if (dip.pct > START_DIP_LIMIT_PCT) {
+      dipOk = false;
+      cautions.push(
+        `נפילת המתח בהתנעה (${round(dip.pct, 1)}%) גבוהה מ-${START_DIP_LIMIT_PCT}% — הגדל חתך או עבור לשיטת התנעה מרוככת.`
+      );
+    }
+    const runLimit = voltageDropLimit();
+    checks.push(checkAtMost("נפילת מתח בעבודה", run.pct, runLimit.pct, "%", runLimit.reg));
+    if (run.pct > runLimit.pct) {
+      dipOk = false;
+      cautions.push(`נפילת המתח בעבודה (${round(run.pct, 1)}%) גבוהה מ-${runLimit.pct}% המותרים בתקנות.`);
+    }
+    assumptions.push(`נפילת המתח בהתנעה מחושבת בכבל ההזנה בלבד, עם cosφ התנעה ${startCos}.`);
+  } else {
+    assumptions.push("לא הוזן כבל הזנה — נפילת המתח בהתנעה לא חושבה.");
+  }
+
+  const steps = [
+    breaker
+      ? `מפסק ${breaker.breakerA}A עקומה ${breaker.curve}: הסף המגנטי (${breaker.magneticA}A) מעל זרם ההתנעה עם מרווח.`
+      : "בחר מפסק מוגן-מנוע או MCCB שהסף המגנטי שלו מעל זרם ההתנעה.",
+    method === "star_delta"
+      ? `ממסר עומס-יתר בליפופים (אחרי מגען הקו): כיול ${round(overloadA, 1)}A = IN/√3.`
+      : method === "vfd"
+        ? "ההגנה התרמית מוגדרת כפרמטר בממיר לפי זרם הלוחית; מבטחי הזנה לפי הוראות יצרן הממיר."
+        : `ממסר עומס-יתר מכויל לזרם הלוחית: ${round(overloadA, 1)}A, מחלקה ${tClass}.`,
+    "חתך הכבל נבחר לפי זרם המפסק, ובנוסף נבדקת נפילת המתח בעבודה ובהתנעה.",
+  ];
+
+  const answer: Answer = {
+    kind: "calc",
+    title: "מעגל מנוע: התנעה והגנות",
+    bottomLine: `זרם עבודה ${round(runA, 1)}A, זרם התנעה ${round(startA, 0)}A (${METHOD_LABEL[method]})${
+      breaker ? ` — מפסק ${breaker.breakerA}A עקומה ${breaker.curve}` : ""
+    }`,
+    steps,
+    values,
+    assumptions,
+    cautions,
+    confidence: breaker && dipOk ? "medium" : "low",
+  };
+  return checks.length ? withCompliance(answer, checks) : answer;
+}
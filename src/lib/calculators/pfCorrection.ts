@@ -0,0 +1,155 @@
+import type { Answer } from "../../types/answer";
+import { calcCableSize, STANDARD_BREAKERS } from "./cableSize";
+import { clamp, invalidInput, readQuantities, round } from "./quantity";
+
+export type PfCorrectionInput = {
+  phase?: "1P" | "3P"; // default 3P
+  voltageV: number;
+  // Either the load itself...
+  activeKw?: number;
+  cosPhi?: number; // present power factor
+  // ...or a monthly electricity bill.
+  monthlyKwh?: number;
+  monthlyKvarh?: number;
+  monthlyHours?: number; // operating hours per month, turns kWh into an average kW
+  targetCosPhi?: number; // default 0.95
+};
+
+// Common low-voltage capacitor unit ratings, kVAr.
+const STANDARD_STEPS = [2.5, 5, 7.5, 10, 12.5, 15, 20, 25, 30, 40, 50];
+
+const DEFAULT_TARGET_COS_PHI = 0.95;
+const DEFAULT_MONTHLY_HOURS = 176; // 22 working days of 8 hours
+const FIXED_BANK_MAX_KVAR = 15; // below this a fixed bank is enough
+const REGULATOR_STEPS = 6; // resolution aimed for in an automatic bank
+
+// IEC 60831-1: capacitors carry up to 1.3·In from harmonics, with up to +10% capacitance tolerance.
+const CAPACITOR_OVERCURRENT = 1.43;
+
+const tan = (cos: number) => Math.sqrt(1 - cos * cos) / cos;
+
+export function calcPfCorrection(raw: PfCorrectionInput): Answer {
+  const phase = raw.phase ?? "3P";
+  const fromBill = raw.activeKw == null && raw.monthlyKwh != null;
+
+  const q = readQuantities(raw, {
+    voltageV: { label: "מתח הזנה", unit: "V", required: true },
+    phase: { label: "פאזה (1P/3P)", oneOf: ["1P", "3P"] },
+    activeKw: { label: "הספק פעיל (kW) — או צריכה חודשית kWh/kVArh", unit: "kW", required: !fromBill },
+    cosPhi: { label: "מקדם הספק נוכחי (cosφ)", dimension: "ratio", required: !fromBill },
+    monthlyKwh: { label: "צריכה חודשית (kWh)", unit: "kWh" },
+    monthlyKvarh: { label: "צריכה ריאקטיבית חודשית (kVArh)", unit: "kVArh", required: fromBill },
+    monthlyHours: { label: "שעות פעולה בחודש", unit: "h", max: 744 },
+    targetCosPhi: { label: "מקדם הספק יעד", dimension: "ratio" },
+  });
+  if (q.errors.length) return invalidInput("שיפור מקדם הספק", q.errors, "חסרים נתונים לחישוב סוללת הקבלים.");
+
+  const i = { ...raw, ...q.values } as PfCorrectionInput;
+
+  const hours = i.monthlyHours ?? DEFAULT_MONTHLY_HOURS;
+  const kw = fromBill ? Number(i.monthlyKwh) / hours : Number(i.activeKw);
+  const cos1 = fromBill
+    ? Number(i.monthlyKwh) / Math.hypot(Number(i.monthlyKwh), Number(i.monthlyKvarh))
+    : clamp(Number(i.cosPhi), 0.1, 1);
+  const cos2 = clamp(i.targetCosPhi ?? DEFAULT_TARGET_COS_PHI, 0.1, 1);
+
+  const assumptions = [
+    "Qc = P·(tanφ1 − tanφ2), לפי הספק פעיל ממוצע.",
+    `זרם הקבלים לתכנון הכבל וההגנה: ${CAPACITOR_OVERCURRENT}·Ic (הרמוניות וסבולת קיבול לפי IEC 60831-1).`,
+  ];
+  if (fromBill) {
+    assumptions.push(
+      `cosφ נגזר מהיחס kWh/kVArh; הספק ממוצע לפי ${hours} שעות פעולה בחודש${i.monthlyHours ? "" : " (הנחה)"}.`
+    );
+  }
+
+  if (cos1 >= cos2) {
+    return {
+      kind: "calc",
+      title: "שיפור מקדם הספק",
+      bottomLine: `מקדם ההספק הנוכחי (${round(cos1, 3)}) כבר עומד ביעד ${cos2} — אין צורך בקבלים.`,
+      steps: ["בדוק שוב לאחר הוספת עומסים השראתיים (מנועים, נטלים)."],
+      values: { הספק_פעיל_kW: round(kw, 1), cos_phi_נוכחי: round(cos1, 3), cos_phi_יעד: cos2 },
+      assumptions,
+      confidence: "medium",
+    };
+  }
+
+  const qcKvar = kw * (tan(cos1) - tan(cos2));
+  const k = phase === "3P" ? Math.sqrt(3) : 1;
+
+  // Automatic bank: equal steps sized for about REGULATOR_STEPS stages; small needs get a fixed unit.
+  const automatic = qcKvar > FIXED_BANK_MAX_KVAR;
+  const stepKvar = automatic
+    ? STANDARD_STEPS.find((s) => s >= qcKvar / REGULATOR_STEPS) ?? STANDARD_STEPS[STANDARD_STEPS.length - 1]
+    : STANDARD_STEPS.find((s) => s >= qcKvar) ?? FIXED_BANK_MAX_KVAR;
+  const stepCount = automatic ? Math.ceil(qcKvar / stepKvar) : 1;
+  const bankKvar = stepKvar * stepCount;
+
+  const kva1 = kw / cos1;
+  const cosAchieved = kw / Math.hypot(kw, kw * tan(cos1) - bankKvar);
+  const leading = bankKvar > kw * tan(cos1);
+  const i1 = (kva1 * 1000) / (k * i.voltageV);
+  const i2 = (kw * 1000) / (cosAchieved * k * i.voltageV);
+
+  const icA = (bankKvar * 1000) / (k * i.voltageV);
+  const designA = icA * CAPACITOR_OVERCURRENT;
+  const breakerA = STANDARD_BREAKERS.find((b) => b >= designA);
+  const cable = calcCableSize({
+    designCurrentA: round(designA, 1),
+    method: "C",
+    material: "Cu",
+    insulation: "XLPE",
+    phase,
+    protectionA: breakerA,
+  });
+  const cableMm2 = Number(cable.values?.חתך_ממ2) || undefined;
+
+  const cautions = [
+    "בנוכחות הרמוניות משמעותיות (ממירי תדר, UPS) יש לשקול סוללה עם משנקי ניתוק (detuned).",
+    "קבלים נשארים טעונים לאחר ניתוק — יש להמתין לפריקה לפני עבודה.",
+  ];
+  if (leading) cautions.push("הסוללה שנבחרה גדולה מהצריכה הריאקטיבית — סכנת קיבוליות יתר בעומס נמוך.");
+  if (!automatic) cautions.push("סוללה קבועה: ודא שאינה נשארת מחוברת בזמן שהמתקן כמעט ללא עומס.");
+  if (!breakerA) cautions.push("זרם הקבלים חורג מטבלת המפסקים המובנית — נדרש מפסק תעשייתי מכויל.");
+
+  return {
+    kind: "calc",
+    title: "שיפור מקדם הספק",
+    bottomLine: `נדרש ${round(qcKvar, 1)} kVAr — ${
+      automatic ? `סוללה אוטומטית ${stepCount}×${stepKvar} kVAr (${bankKvar} kVAr)` : `סוללה קבועה ${bankKvar} kVAr`
+    }`,
+    steps: [
+      `הספק ריאקטיבי לקיזוז: ${round(kw, 1)}kW × (${round(tan(cos1), 3)} − ${round(tan(cos2), 3)}) = ${round(qcKvar, 1)} kVAr.`,
+      automatic
+        ? `${stepCount} דרגות של ${stepKvar} kVAr עם בקר מקדם הספק, כדי לעקוב אחרי העומס.`
+        : `יחידה קבועה של ${stepKvar} kVAr, מחוברת עם העומס.`,
+      `זרם הקבלים ${round(icA, 1)}A; כבל והגנה לפי ${round(designA, 1)}A.`,
+      cableMm2 && breakerA
+        ? `מפסק ${breakerA}A (עקומה D בגלל זרם הטעינה) וכבל ${cableMm2} ממ״ר Cu.`
+        : "בחר מפסק וכבל לפי זרם התכן של הסוללה.",
+    ],
+    values: {
+      פאזה: phase,
+      מתח_וולט: i.voltageV,
+      הספק_פעיל_kW: round(kw, 1),
+      cos_phi_נוכחי: round(cos1, 3),
+      cos_phi_יעד: cos2,
+      הספק_ריאקטיבי_נדרש_kVAr: round(qcKvar, 1),
+      גודל_דרגה_kVAr: stepKvar,
+      מספר_דרגות: stepCount,
+      סוללה_kVAr: bankKvar,
+      cos_phi_מתקבל: round(cosAchieved, 3),
+      זרם_לפני_אמפר: round(i1, 1),
+      זרם_אחרי_אמפר: round(i2, 1),
+      הפחתת_זרם_אחוז: round(((i1 - i2) / i1) * 100, 1),
+      זרם_קבלים_אמפר: round(icA, 1),
+      זרם_תכן_קבלים_אמפר: round(designA, 1),
+      מפסק_קבלים_אמפר: breakerA ?? "לא נקבע",
+      חתך_כבל_קבלים_ממ2: cableMm2 ?? "לא נקבע",
+    },
+    assumptions,
+    cautions,
+    confidence: breakerA && cableMm2 && !leading ? "medium" : "low",
+  };
+}
@@ -1,4 +1,6 @@
 import type { Answer } from "../../types/answer";
+import { clamp, invalidInput, readQuantities, round } from "./quantity";
+import { sourceOf } from "./regulations";
 
 export type PowerCurrentInput = {
   phase: "1P" | "3P";
@@ -10,14 +12,25 @@ export type PowerCurrentInput = {
 };
 
 export function calcPowerCurrent(i: PowerCurrentInput): Answer {
-  const cosPhi = clamp(i.cosPhi ?? 0.9, 0.1, 1);
-  const eff = clamp(i.efficiency ?? 0.95, 0.1, 1);
-  const kVA = i.unit === "kVA" ? i.value : i.value / (cosPhi * eff);
+  const q = readQuantities(i, {
+    phase: { label: "פאזה (1P/3P)", oneOf: ["1P", "3P"], required: true },
+    unit: { label: "יחידות הספק (kW/kVA)", oneOf: ["kW", "kVA"], required: true },
+    voltageV: { label: "מתח הזנה", unit: "V", required: true },
+    value: { label: "הספק", unit: i.unit === "kVA" ? "kVA" : "kW", required: true },
+    cosPhi: { label: "cosφ", dimension: "ratio" },
+    efficiency: { label: "נצילות", dimension: "ratio" },
+  });
+  if (q.errors.length) return invalidInput("חישוב זרם מהספק", q.errors, "חסרים נתונים לחישוב זרם.");
+  const { voltageV, value } = q.values as { voltageV: number; value: number };
+
+  const cosPhi = clamp(q.values.cosPhi ?? 0.9, 0.1, 1);
+  const eff = clamp(q.values.efficiency ?? 0.95, 0.1, 1);
+  const kVA = i.unit === "kVA" ? value : value / (cosPhi * eff);
   const VA = kVA * 1000;
 
   let currentA = 0;
-  if (i.phase === "1P") currentA = VA / i.voltageV;
-  else currentA = VA / (Math.sqrt(3) * i.voltageV);
+  if (i.phase === "1P") currentA = VA / voltageV;
+  else currentA = VA / (Math.sqrt(3) * voltageV);
 
   return {
     kind: "calc",
@@ -26,28 +39,20 @@ export function calcPowerCurrent(i: PowerCurrentInput): Answer {
     steps: [
       "אמת את סוג ההזנה: חד-פאזי או תלת-פאזי.",
       "בעומסים מנועיים יש לאמת cosφ ונצילות לפי לוחית היצרן.",
-      "זהו חישוב תכן ראשוני בלבד; בחירת הגנות וחתך מחייבת טבלאות ותנאי התקנה.",
+      `לבחירת חתך והגנה: Ib = ${round(currentA, 1)}A ≤ In ≤ Iz, עם Iz מטבלאות הזרם המתמיד שבתקנות ההעמסה (תשע"ד-2014) לפי שיטת ההתקנה.`,
     ],
     values: {
       פאזה: i.phase,
-      מתח_וולט: i.voltageV,
-      קלט: `${i.value} ${i.unit}`,
+      מתח_וולט: voltageV,
+      קלט: `${value} ${i.unit}`,
       cos_phi: cosPhi,
       נצילות: i.unit === "kW" ? eff : "לא רלוונטי",
       זרם_אמפר: round(currentA, 2),
     },
     cautions: [
-      "לפני ביצוע בשטח יש לאמת מול תקן, שיטת התקנה, טמפרטורה וקיבוץ מעגלים.",
+      "Iz בטבלאות התקנות תלוי בשיטת ההתקנה, בטמפרטורת הסביבה ובקיבוץ מעגלים — השתמש בחישוב חתך כבל לבדיקה מלאה.",
     ],
+    sources: [sourceOf("cableLoading")],
     confidence: "high",
   };
 }
-
-function round(x: number, d = 2) {
-  const p = 10 ** d;
-  return Math.round(x * p) / p;
-}
-
-function clamp(x: number, a: number, b: number) {
-  return Math.max(a, Math.min(b, x));
-}
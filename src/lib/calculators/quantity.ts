@@ -0,0 +1,333 @@
+import type { Answer } from "../../types/answer";
+
+/*
+ * Physical quantities shared by the calculators.
+ *
+ * Calculators work on plain numbers in the unit their field name says (voltageV, areaMm2, ...).
+ * This module is the boundary around them: it reads numbers or unit-bearing strings
+ * ("2.5 ממ״ר", "30mA", "0.4kV") into the field's unit, rejects values that cannot be
+ * physical with structured errors, and formats results for a Hebrew UI.
+ */
+
+export type Dimension =
+  | "power"
+  | "apparent_power"
+  | "reactive_power"
+  | "energy"
+  | "reactive_energy"
+  | "voltage"
+  | "current"
+  | "resistance"
+  | "resistivity"
+  | "area"
+  | "length"
+  | "temperature"
+  | "time"
+  | "percent"
+  | "ratio"
+  | "count";
+
+export type Unit =
+  | "W" | "kW" | "HP"
+  | "VA" | "kVA"
+  | "kVAr"
+  | "kWh" | "kVArh"
+  | "V" | "kV"
+  | "mA" | "A" | "kA"
+  | "mΩ" | "Ω"
+  | "Ω·m"
+  | "mm²" | "m²"
+  | "mm" | "m" | "km"
+  | "°C"
+  | "s" | "h"
+  | "%";
+
+type UnitDef = {
+  dimension: Dimension;
+  factor: number; // multiply to get the dimension's base unit
+  aliases: string[]; // regex sources, matched right after a number in lowercased text
+  label: string; // shown in Hebrew output
+};
+
+export const UNITS: Record<Unit, UnitDef> = {
+  W: { dimension: "power", factor: 1, aliases: ["w(?![a-z])", "וואט"], label: "W" },
+  kW: { dimension: "power", factor: 1000, aliases: ["kw(?!h)", 'קוו?"?ט', "קילוו?ואט"], label: "kW" },
+  HP: { dimension: "power", factor: 746, aliases: ["hp", 'כ"ס', String.raw`כוח\s*סוס`, String.raw`כוחות\s*סוס`], label: "כ״ס" },
+  VA: { dimension: "apparent_power", factor: 1, aliases: ["va(?![a-z])"], label: "VA" },
+  kVA: { dimension: "apparent_power", factor: 1000, aliases: ["kva(?!r)", 'קוו?"?א(?!ר)', String.raw`קילו\s*וולט\s*אמפר`], label: "kVA" },
+  kVAr: { dimension: "reactive_power", factor: 1000, aliases: ["kvar(?!h)", 'קוו?"?אר'], label: "kVAr" },
+  kWh: { dimension: "energy", factor: 1000, aliases: ["kwh", 'קוט"ש'], label: "kWh" },
+  kVArh: { dimension: "reactive_energy", factor: 1000, aliases: ["kvarh"], label: "kVArh" },
+  V: { dimension: "voltage", factor: 1, aliases: ["v(?![a-z])", "וולט(?!\\s*אמפר)"], label: "V" },
+  kV: { dimension: "voltage", factor: 1000, aliases: ["kv(?![a-z])", String.raw`קילו\s*וולט(?!\s*אמפר)`], label: "kV" },
+  mA: { dimension: "current", factor: 0.001, aliases: ["ma(?![a-z])", 'מ"א', String.raw`מילי\s*אמפר`], label: "mA" },
+  A: { dimension: "current", factor: 1, aliases: ["a(?![a-z])", "אמפר", "amp"], label: "A" },
+  kA: { dimension: "current", factor: 1000, aliases: ["ka(?![a-z])", String.raw`קילו\s*אמפר`], label: "kA" },
+  "mΩ": { dimension: "resistance", factor: 0.001, aliases: ["mω", "mohm", String.raw`מילי\s*אוהם`], label: "mΩ" },
+  "Ω": {
+    dimension: "resistance",
+    factor: 1,
+    aliases: [String.raw`ω(?!\s*[·*]?\s*m)`, String.raw`ohm(?!\s*[-·*]?\s*m)`, String.raw`אוהם(?!\s*[-·]?\s*מטר)`],
+    label: "Ω",
+  },
+  "Ω·m": {
+    dimension: "resistivity",
+    factor: 1,
+    aliases: [String.raw`ω\s*[·*]?\s*m\b`, String.raw`ohm\s*[-·*]?\s*m\b`, String.raw`אוהם\s*[-·]?\s*מטר`],
+    label: "Ω·m",
+  },
+  "mm²": { dimension: "area", factor: 1, aliases: ["mm2", "mm²", "sqmm", 'ממ"ר', "ממר", String.raw`מ"מ\s*2`], label: "ממ״ר" },
+  "m²": { dimension: "area", factor: 1e6, aliases: ["m2(?!\\d)", "m²", 'מ"ר', String.raw`מטר\s*רבוע`], label: "מ״ר" },
+  mm: { dimension: "length", factor: 0.001, aliases: ["mm(?![a-z²2])", 'מ"מ(?!\\s*2)', "מילימטר"], label: "מ״מ" },
+  m: { dimension: "length", factor: 1, aliases: ["m(?![a-zω²2])", "מטר(?!\\s*רבוע)", "מ'"], label: "מ׳" },
+  km: { dimension: "length", factor: 1000, aliases: ["km", 'ק"מ', "קילומטר"], label: "ק״מ" },
+  "°C": { dimension: "temperature", factor: 1, aliases: ["°c?", "מעלות"], label: "°C" },
+  s: { dimension: "time", factor: 1, aliases: ["s(?![a-z])", "sec", "שניות", "שנ'"], label: "ש׳" },
+  h: { dimension: "time", factor: 3600, aliases: ["h(?![a-z])", "שעות", "שעה"], label: "שעות" },
+  "%": { dimension: "percent", factor: 1, aliases: ["%", "אחוז"], label: "%" },
+};
+
+// Physically sane bounds per dimension, in its base unit (the one with factor 1: W, V, A, mm², m, s, ...).
+const SANE: Record<Dimension, { min: number; max: number; minExclusive?: boolean }> = {
+  power: { min: 0, max: 1e8, minExclusive: true },
+  apparent_power: { min: 0, max: 1e8, minExclusive: true },
+  reactive_power: { min: 0, max: 1e8 },
+  energy: { min: 0, max: 1e11, minExclusive: true },
+  reactive_energy: { min: 0, max: 1e11 },
+  voltage: { min: 0, max: 1000, minExclusive: true }, // low voltage only
+  current: { min: 0, max: 2e5, minExclusive: true },
+  resistance: { min: 0, max: 1e7 },
+  resistivity: { min: 0, max: 1e5, minExclusive: true },
+  area: { min: 0, max: 1000, minExclusive: true },
+  length: { min: 0, max: 1e5, minExclusive: true },
+  temperature: { min: -40, max: 90 },
+  time: { min: 0, max: 2.7e6, minExclusive: true }, // up to a month
+  percent: { min: 0, max: 100, minExclusive: true },
+  ratio: { min: 0, max: 1, minExclusive: true },
+  count: { min: 1, max: 1000 },
+};
+
+// A minus right after a letter is a Hebrew prefix hyphen ("ל-25A"), not a sign.
+const NUM = String.raw`(?<![\d.,])((?:(?<![א-תa-z])-)?\d+(?:[.,]\d+)?)`;
+
+export type Quantity = { value: number; unit: Unit };
+
+export type FieldSpec = {
+  label: string; // Hebrew, as shown in requiredInfo
+  unit?: Unit; // the unit the calculator works in; absent for ratios, counts and choices
+  dimension?: "ratio" | "count"; // for unitless fields
+  oneOf?: readonly string[] | readonly number[]; // a choice field ("Cu" | "Al"): checked, kept as given, not in the numeric values; numeric choices (30 / 100 / 300 mA) are read as numbers
+  required?: boolean;
+  min?: number; // in `unit`, overrides the sane range
+  max?: number;
+  allowZero?: boolean; // for lengths of zero (a breaker at the origin) and the like
+};
+
+export type ValidationError = {
+  field: string;
+  label: string;
+  code: "missing" | "not_a_number" | "unit_mismatch" | "out_of_range" | "invalid_choice";
+  value?: unknown;
+  min?: number;
+  max?: number;
+  unit?: Unit;
+  message: string; // Hebrew
+};
+
+export function round(x: number, d = 2) {
+  const p = 10 ** d;
+  return Math.round(x * p) / p;
+}
+
+export function clamp(x: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, x));
+}
+
+export function dimensionOf(unit: Unit): Dimension {
+  return UNITS[unit].dimension;
+}
+
+export function convert(value: number, from: Unit, to: Unit): number {
+  if (from === to) return value;
+  const a = UNITS[from];
+  const b = UNITS[to];
+  if (a.dimension !== b.dimension) throw new Error(`Cannot convert ${from} to ${to}`);
+  return (value * a.factor) / b.factor;
+}
+
+// Lowercase and fold Hebrew gershayim/geresh variants so the aliases stay simple.
+export function foldUnits(text: string) {
+  return (text || "")
+    .toLowerCase()
+    .replace(/[״“”]/g, '"')
+    .replace(/[׳’]/g, "'");
+}
+
+const toNumber = (s: string) => Number(s.replace(",", "."));
+
+/** First number in the text followed by a unit of the given dimension (any dimension when omitted). */
+export function parseQuantity(text: string, dimension?: Dimension): Quantity | undefined {
+  const s = foldUnits(text);
+  let best: (Quantity & { index: number; length: number }) | undefined;
+  for (const [unit, def] of Object.entries(UNITS) as [Unit, UnitDef][]) {
+    if (dimension && def.dimension !== dimension) continue;
+    const m = s.match(new RegExp(`${NUM}\\s*(?:${def.aliases.join("|")})`));
+    if (!m || m.index === undefined) continue;
+    if (!best || m.index < best.index || (m.index === best.index && m[0].length > best.length)) {
+      best = { value: toNumber(m[1]), unit, index: m.index, length: m[0].length };
+    }
+  }
+  return best && { value: best.value, unit: best.unit };
+}
+
+/** Like parseQuantity, converted to `to`. */
+export function findQuantity(text: string, to: Unit): number | undefined {
+  const q = parseQuantity(text, dimensionOf(to));
+  return q ? convert(q.value, q.unit, to) : undefined;
+}
+
+function rangeOf(spec: FieldSpec) {
+  const dim = spec.unit ? dimensionOf(spec.unit) : spec.dimension ?? "ratio";
+  const sane = SANE[dim];
+  const toSpec = (x: number) => (spec.unit ? x / UNITS[spec.unit].factor : x);
+  return {
+    min: spec.min ?? toSpec(sane.min),
+    max: spec.max ?? toSpec(sane.max),
+    minExclusive: spec.min === undefined && !!sane.minExclusive && !spec.allowZero,
+    integer: dim === "count",
+  };
+}
+
+/** Reads one field: a number in the spec's unit, or a string with (or without) a unit; text choices are only checked, numeric ones are read. */
+export function readQuantity(field: string, raw: unknown, spec: FieldSpec): { value?: number; error?: ValidationError } {
+  const base = { field, label: spec.label, unit: spec.unit };
+  if (raw === undefined || raw === null || raw === "") {
+    return spec.required ? { error: { ...base, code: "missing", message: spec.label } } : {};
+  }
+
+  const choices: readonly (string | number)[] | undefined = spec.oneOf;
+  const badChoice = (): { error: ValidationError } => ({
+    error: { ...base, code: "invalid_choice", value: raw, message: `${spec.label}: "${String(raw)}" אינו אחד מ-${choices?.join(" / ")}` },
+  });
+  const numericChoice = !!choices && choices.every((c) => typeof c === "number");
+  if (choices && !numericChoice) {
+    return typeof raw === "string" && choices.includes(raw) ? {} : badChoice();
+  }
+
+  let value: number;
+  if (typeof raw === "number") value = raw;
+  else if (typeof raw === "string") {
+    const q = parseQuantity(raw);
+    if (q && spec.unit && dimensionOf(q.unit) !== dimensionOf(spec.unit)) {
+      return { error: { ...base, code: "unit_mismatch", value: raw, message: `${spec.label}: היחידה ${UNITS[q.unit].label} אינה מתאימה` } };
+    }
+    value = q && spec.unit ? convert(q.value, q.unit, spec.unit) : toNumber(raw.trim());
+  } else value = NaN;
+
+  if (choices) return choices.includes(value) ? { value } : badChoice();
+  if (!Number.isFinite(value)) {
+    return { error: { ...base, code: "not_a_number", value: raw, message: `${spec.label}: "${String(raw)}" אינו מספר` } };
+  }
+
+  const r = rangeOf(spec);
+  const low = r.minExclusive ? value <= r.min : value < r.min;
+  if (low || value > r.max || (r.integer && !Number.isInteger(value))) {
+    const unit = spec.unit ? ` ${UNITS[spec.unit].label}` : "";
+    const bound = low
+      ? r.minExclusive
+        ? `חייב להיות גדול מ-${formatNumber(r.min)}`
+        : `לפחות ${formatNumber(r.min)}`
+      : value > r.max
+        ? `עד ${formatNumber(r.max)}`
+        : "מספר שלם";
+    return {
+      error: {
+        ...base,
+        code: "out_of_range",
+        value: raw,
+        min: r.min,
+        max: r.max,
+        message: `${spec.label}: ${formatNumber(value)}${unit} אינו ערך אפשרי (${bound})`,
+      },
+    };
+  }
+  return { value };
+}
+
+/** Reads every field in `specs` from `input`; the result holds numbers in each spec's unit. */
+export function readQuantities<K extends string>(
+  input: object,
+  specs: Record<K, FieldSpec>
+): { values: Partial<Record<K, number>>; errors: ValidationError[] } {
+  const values: Partial<Record<K, number>> = {};
+  const errors: ValidationError[] = [];
+  const src = (input || {}) as Record<string, unknown>;
+  for (const field of Object.keys(specs) as K[]) {
+    const r = readQuantity(field, src[field], specs[field]);
+    if (r.error) errors.push(r.error);
+    else if (r.value !== undefined) values[field] = r.value;
+  }
+  return { values, errors };
+}
+
+/** The answer for input that cannot be calculated: missing fields go to requiredInfo, bad ones are explained. */
+export function invalidInput(title: string, errors: ValidationError[], missingLine: string): Answer {
+  const bad = errors.filter((e) => e.code !== "missing");
+  return {
+    kind: "calc",
+    title,
+    bottomLine: bad.length ? `נתוני כניסה לא תקינים: ${bad.map((e) => e.message).join("; ")}` : missingLine,
+    steps: [],
+    requiredInfo: errors.map((e) => e.message),
+    errors,
+    confidence: "low",
+  };
+}
+
+const formatters = new Map<number, Intl.NumberFormat>();
+
+export function formatNumber(x: number, digits = 2) {
+  let f = formatters.get(digits);
+  if (!f) {
+    f = new Intl.NumberFormat("he-IL", { maximumFractionDigits: digits });
+    formatters.set(digits, f);
+  }
+  return f.format(x);
+}
+
+export function formatQuantity(value: number, unit: Unit, digits = 2) {
+  const label = UNITS[unit].label;
+  return unit === "%" || unit === "°C" ? `${formatNumber(value, digits)}${label}` : `${formatNumber(value, digits)} ${label}`;
+}
+
+// Unit implied by an Answer.values key suffix; longer suffixes first.
+const KEY_UNIT: [RegExp, Unit][] = [
+  [/_אוהם_מטר$/, "Ω·m"],
+  [/_אוהם$/, "Ω"],
+  [/_אמפר$/, "A"],
+  [/_וולט$/, "V"],
+  [/_ממ2$/, "mm²"],
+  [/_מטר$/, "m"],
+  [/_אחוז$/, "%"],
+  [/_kVAr$/, "kVAr"],
+  [/_kVA$/, "kVA"],
+  [/_kW$/, "kW"],
+  [/_mA$/, "mA"],
+  [/_kA$/, "kA"],
+  [/_שניות$/, "s"],
+];
+
+/** Hebrew display of one Answer.values entry, with the unit its key names. */
+export function formatValue(key: string, v: number | string) {
+  if (typeof v !== "number") return v;
+  if (key.endsWith("_אוהם_לקמ")) return `${formatNumber(v, 3)} Ω/ק״מ`;
+  const unit = KEY_UNIT.find(([re]) => re.test(key))?.[1];
+  return unit ? formatQuantity(v, unit, 3) : formatNumber(v, 3);
+}
+
+/** Hebrew label for an Answer.values key: the unit suffix dropped (formatValue shows it), underscores as spaces. */
+export function valueLabel(key: string) {
+  const bare = key.replace(/_אוהם_לקמ$/, "");
+  const unit = KEY_UNIT.find(([re]) => re.test(bare));
+  return (unit ? bare.replace(unit[0], "") : bare).replace(/_/g, " ");
+}
@@ -0,0 +1,106 @@
+import type { Answer, ComplianceCheck, ComplianceVerdict, SourceRef } from "../../types/answer";
+import { formatQuantity, type Unit } from "./quantity";
+
+/*
+ * Regulatory limits the calculators check their results against.
+ *
+ * Each entry is a section of a document in the source corpus, titled exactly as the
+ * corpus titles it so the citation matches the retrieved source, with the words that
+ * state the limit. scripts/eval_retrieval.mjs checks the quotes against the corpus.
+ */
+
+export const REGULATIONS = {
+  finalCircuits: {
+    title: 'תקנות החשמל (מעגלים סופיים הניזונים במתח עד 1000 וולט), תשמ"ה-1984',
+    section: "תקנה 2 — מפל מתח",
+    quote: "לא יעלה על 3% מהמתח הנומינלי",
+  },
+  finalCircuitsHv: {
+    title: "פירוש מינהל החשמל 08-05-19 — מפל מתח מירבי במתקן המקבל אספקה במתח גבוה",
+    section: "התשובה",
+    quote: "לא יעלה על 3%",
+  },
+  cableLoading: {
+    title: 'תקנות החשמל (העמסה והגנה על מוליכים מבודדים וכבלים במתח נמוך), תשע"ד-2014',
+    section: "תקנה 3 — זרם מתמיד מרבי",
+    quote: "על פי הטבלאות שבתוספת",
+  },
+  faultLoop: {
+    title: 'תקנות החשמל (הארקות ואמצעי הגנה בפני חישמול במתח עד 1000 וולט), תשנ"א-1991',
+    section: "תקנה 42 — עכבת לולאת התקלה",
+    quote: "תוך חמש שניות לכל היותר",
+  },
+  rcdProtection: {
+    title: 'תקנות החשמל (הארקות ואמצעי הגנה בפני חישמול במתח עד 1000 וולט), תשנ"א-1991',
+    section: "תקנה 68 — מפסק מגן כהגנה בלעדית",
+    quote: "שאינו עולה על 30 מיליאמפר",
+  },
+} satisfies Record<string, SourceRef & { quote: string }>;
+
+export type Regulation = keyof typeof REGULATIONS;
+
+export function sourceOf(reg: Regulation): SourceRef {
+  const { title, section } = REGULATIONS[reg];
+  return { title, section };
+}
+
+// Where the consumer is supplied from decides where the 3% is measured.
+export type ConsumerSupply = "lv" | "hv";
+
+export const VOLTAGE_DROP_LIMIT: Record<ConsumerSupply, { pct: number; from: string; reg: Regulation }> = {
+  lv: { pct: 3, from: "מהדקי הצרכן (נקודת החיבור)", reg: "finalCircuits" },
+  hv: { pct: 3, from: "כל לוח מתח נמוך במתקן", reg: "finalCircuitsHv" },
+};
+
+export function voltageDropLimit(supply: ConsumerSupply = "lv") {
+  return { ...VOLTAGE_DROP_LIMIT[supply], source: sourceOf(VOLTAGE_DROP_LIMIT[supply].reg) };
+}
+
+// Regulation 42: an adjustable breaker must clear a fault within five seconds.
+export const ADJUSTABLE_BREAKER_MAX_S = 5;
+
+export const VERDICT_LABEL: Record<ComplianceVerdict, string> = {
+  compliant: "עומד בדרישה",
+  non_compliant: "לא עומד בדרישה",
+  needs_data: "חסרים נתונים לקביעה",
+};
+
+const known = (x: number | undefined): x is number => x !== undefined && Number.isFinite(x);
+
+/** actual ≤ limit; an unknown or non-finite value on either side is a needs-data check rather than a verdict. */
+export function checkAtMost(
+  label: string,
+  actual: number | undefined,
+  limit: number | undefined,
+  unit: Unit,
+  reg: Regulation
+): ComplianceCheck {
+  return {
+    label,
+    verdict: !known(actual) || !known(limit) ? "needs_data" : actual <= limit ? "compliant" : "non_compliant",
+    actual: known(actual) ? formatQuantity(actual, unit) : undefined,
+    limit: known(limit) ? `≤ ${formatQuantity(limit, unit)}` : "לא נקבע",
+    source: sourceOf(reg),
+  };
+}
+
+export function overallVerdict(checks: ComplianceCheck[]): ComplianceVerdict {
+  if (checks.some((c) => c.verdict === "non_compliant")) return "non_compliant";
+  if (!checks.length || checks.some((c) => c.verdict === "needs_data")) return "needs_data";
+  return "compliant";
+}
+
+/** Attaches the checks to an answer: the overall verdict, a value line, and each governing section in sources. */
+export function withCompliance(answer: Answer, checks: ComplianceCheck[]): Answer {
+  const verdict = overallVerdict(checks);
+  const sources = [...(answer.sources || [])];
+  for (const c of checks) {
+    if (!sources.some((s) => s.title === c.source.title && s.section === c.source.section)) sources.push(c.source);
+  }
+  return {
+    ...answer,
+    values: answer.values && { ...answer.values, עמידה_בתקנות: VERDICT_LABEL[verdict] },
+    compliance: { verdict, checks },
+    sources,
+  };
+}
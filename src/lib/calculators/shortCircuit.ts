@@ -0,0 +1,225 @@
+import type { Answer } from "../../types/answer";
+import { defaultReactance, type VDropSegment } from "./voltageDrop";
+import { invalidInput, readQuantities, round, type ValidationError } from "./quantity";
+
+// Same cable description as the voltage-drop chain, minus the load.
+export type ScSegment = Pick<VDropSegment, "label" | "material" | "lengthM" | "areaMm2" | "reactanceOhmPerKm"> & {
+  insulation?: "PVC" | "XLPE";
+  peAreaMm2?: number; // return conductor (N/PE) for the single-phase loop; defaults to areaMm2
+};
+
+export type ShortCircuitInput = {
+  // Source: either the supply transformer or a known fault level at the origin.
+  transformerKva?: number;
+  transformerUkPct?: number; // short-circuit impedance voltage, %
+  sourcePsccKa?: number; // known three-phase prospective fault current at the origin
+  voltageV?: number; // line voltage, default 400V
+  segments?: ScSegment[]; // cable chain from the origin; the last one is the protected circuit
+  phase?: "1P" | "3P"; // protected circuit, decides which fault the breaker must break
+  breakerKa?: number; // Icn (IEC 60898) or Icu (IEC 60947-2) of the chosen breaker
+  letThroughI2t?: number; // breaker let-through energy, A²s (from the manufacturer)
+  clearingTimeS?: number; // used for I²t = Ik²·t when no let-through value is given
+};
+
+const RHO_20 = { Cu: 0.0175, Al: 0.0282 }; // Ω·mm²/m, cold conductors give the maximum fault
+
+// k for PVC/XLPE insulated conductors, IEC 60364-4-43 table 43A.
+const K_FACTOR: Record<"Cu" | "Al", Record<"PVC" | "XLPE", number>> = {
+  Cu: { PVC: 115, XLPE: 143 },
+  Al: { PVC: 76, XLPE: 94 },
+};
+
+const C_MAX = 1.1; // IEC 60909 voltage factor for maximum LV fault currents
+const DEFAULT_VOLTAGE_V = 400;
+const NETWORK_R_TO_X = 0.1; // IEC 60909 feeder approximation when only the fault level is known
+const TRANSFORMER_X_TO_R = 3; // typical for distribution transformers of a few hundred kVA
+
+type Z = { r: number; x: number }; // Ω
+
+const add = (a: Z, b: Z): Z => ({ r: a.r + b.r, x: a.x + b.x });
+const mag = (z: Z) => Math.hypot(z.r, z.x);
+
+function sourceImpedance(i: ShortCircuitInput, un: number): Z | null {
+  if (Number(i.sourcePsccKa) > 0) {
+    const z = (C_MAX * un) / (Math.sqrt(3) * Number(i.sourcePsccKa) * 1000);
+    const x = z / Math.sqrt(1 + NETWORK_R_TO_X ** 2);
+    return { r: NETWORK_R_TO_X * x, x };
+  }
+  if (Number(i.transformerKva) > 0 && Number(i.transformerUkPct) > 0) {
+    const z = (Number(i.transformerUkPct) / 100) * (un * un) / (Number(i.transformerKva) * 1000);
+    const r = z / Math.sqrt(1 + TRANSFORMER_X_TO_R ** 2);
+    return { r, x: TRANSFORMER_X_TO_R * r };
+  }
+  return null;
+}
+
+// Phase conductor impedance and phase + return loop impedance of one segment.
+function segmentImpedance(s: ScSegment) {
+  const x = ((s.reactanceOhmPerKm ?? defaultReactance(s.areaMm2)) * s.lengthM) / 1000;
+  const rPhase = (RHO_20[s.material] * s.lengthM) / s.areaMm2;
+  const rReturn = (RHO_20[s.material] * s.lengthM) / (s.peAreaMm2 ?? s.areaMm2);
+  return { phase: { r: rPhase, x }, loop: { r: rPhase + rReturn, x: 2 * x } };
+}
+
+export function calcShortCircuit(raw: ShortCircuitInput): Answer {
+  const q = readQuantities(raw, {
+    transformerKva: { label: "הספק שנאי", unit: "kVA" },
+    transformerUkPct: { label: "מתח קצר uk%", unit: "%", max: 20 },
+    sourcePsccKa: { label: "זרם קצר במוצא", unit: "kA" },
+    voltageV: { label: "מתח שלוב", unit: "V" },
+    breakerKa: { label: "כושר ניתוק המפסק", unit: "kA" },
+    clearingTimeS: { label: "זמן ניתוק", unit: "s" },
+    phase: { label: "פאזת המעגל המוגן (1P/3P)", oneOf: ["1P", "3P"] },
+  });
+  const errors: ValidationError[] = [...q.errors];
+  const segments = (raw.segments || []).map((s, k) => {
+    const sq = readQuantities(s, {
+      lengthM: { label: "אורך וחתך לכל מקטע כבל", unit: "m", required: true, allowZero: true },
+      areaMm2: { label: "אורך וחתך לכל מקטע כבל", unit: "mm²", required: true },
+      peAreaMm2: { label: "חתך מוליך החזרה", unit: "mm²" },
+      material: { label: "חומר מוליך (Cu/Al)", oneOf: ["Cu", "Al"], required: true },
+      insulation: { label: "סוג בידוד (PVC/XLPE)", oneOf: ["PVC", "XLPE"] },
+    });
+    errors.push(...sq.errors.map((e) => ({ ...e, field: `segments[${k}].${e.field}`, message: `מקטע ${k + 1}: ${e.message}` })));
+    return { ...s, ...sq.values } as ScSegment;
+  });
+
+  const i = { ...raw, ...q.values } as ShortCircuitInput;
+  const un = i.voltageV ?? DEFAULT_VOLTAGE_V;
+  const u0 = un / Math.sqrt(3);
+  const zSource = errors.length ? null : sourceImpedance(i, un);
+  if (!zSource && !errors.length) {
+    errors.push({
+      field: "source",
+      label: "נתוני מקור",
+      code: "missing",
+      message: "הספק שנאי (kVA) ומתח קצר uk% — או זרם קצר ידוע בנקודת המוצא (kA)",
+    });
+  }
+  if (errors.length || !zSource) return invalidInput("זרם קצר צפוי וכושר ניתוק", errors, "חסרים נתונים לחישוב זרם הקצר.");
+
+  // Walk the chain; the source contributes the same impedance to the 3-phase and the loop path (Dyn, Z0 ≈ Z1).
+  let zPhase = zSource;
+  let zLoop = zSource;
+  const points = [{ label: "מוצא", ik3: ik(C_MAX * un, Math.sqrt(3), zPhase), ik1: ik(C_MAX * u0, 1, zLoop) }];
+  for (const s of segments) {
+    const z = segmentImpedance(s);
+    zPhase = add(zPhase, z.phase);
+    zLoop = add(zLoop, z.loop);
+    points.push({ label: s.label || `מקטע ${points.length}`, ik3: ik(C_MAX * un, Math.sqrt(3), zPhase), ik1: ik(C_MAX * u0, 1, zLoop) });
+  }
+
+  const end = points[points.length - 1];
+  // The breaker of the protected circuit sits at the start of the last segment.
+  const atBreaker = points[Math.max(0, points.length - 2)];
+  const breakerFaultA = (i.phase ?? "3P") === "1P" ? atBreaker.ik1 : atBreaker.ik3;
+
+  const steps: string[] = [
+    `זרם קצר תלת-פאזי בנקודת השימוש: ${kA(end.ik3)} kA; חד-פאזי (פאזה–מוליך חוזר): ${kA(end.ik1)} kA.`,
+  ];
+  const cautions: string[] = [];
+  const values: Record<string, number | string> = {
+    מתח_שלוב_וולט: un,
+    עכבת_מקור_מיליאוהם: round(mag(zSource) * 1000, 2),
+    זרם_קצר_תלת_מוצא_kA: kA(points[0].ik3),
+    זרם_קצר_תלת_קצה_kA: kA(end.ik3),
+    זרם_קצר_חד_קצה_kA: kA(end.ik1),
+    זרם_קצר_במפסק_kA: kA(breakerFaultA),
+  };
+  points.slice(1).forEach((p, k) => {
+    values[`מקטע_${k + 1}`] = `${p.label}: Ik3 ${kA(p.ik3)} kA, Ik1 ${kA(p.ik1)} kA`;
+  });
+
+  let breakerOk: boolean | undefined;
+  if (Number(i.breakerKa) > 0) {
+    breakerOk = Number(i.breakerKa) * 1000 >= breakerFaultA;
+    values.כושר_ניתוק_מפסק_kA = Number(i.breakerKa);
+    steps.push(
+      breakerOk
+        ? `כושר הניתוק ${i.breakerKa} kA מכסה את זרם הקצר במקום המפסק (${kA(breakerFaultA)} kA).`
+        : `כושר הניתוק ${i.breakerKa} kA נמוך מזרם הקצר במקום המפסק (${kA(breakerFaultA)} kA).`
+    );
+    if (!breakerOk) {
+      cautions.push("מפסק שכושר הניתוק שלו נמוך מזרם הקצר עלול להיהרס בתקלה — בחר מפסק עם Icn/Icu גבוה יותר או הגנת גיבוי מתואמת.");
+    }
+  } else {
+    steps.push(`בחר מפסק שכושר הניתוק שלו (Icn/Icu) לפחות ${kA(breakerFaultA)} kA.`);
+  }
+
+  // Thermal withstand of the protected (last) cable: k²S² ≥ I²t, IEC 60364-4-43.
+  let thermalOk: boolean | undefined;
+  const last = segments[segments.length - 1];
+  if (last) {
+    const k = K_FACTOR[last.material][last.insulation ?? "PVC"];
+    const i2tFor = (faultA: number) =>
+      Number(i.letThroughI2t) > 0
+        ? Number(i.letThroughI2t)
+        : Number(i.clearingTimeS) > 0
+          ? faultA ** 2 * Number(i.clearingTimeS)
+          : undefined;
+    const withstand = (k * last.areaMm2) ** 2;
+    const i2t = i2tFor(breakerFaultA);
+    values.k_מוליך = k;
+    values.I2t_מותר_A2s = Math.round(withstand);
+
+    if (i2t === undefined) {
+      steps.push(
+        `הכבל ${last.areaMm2} ממ״ר עומד באנרגיה של עד ${Math.round(withstand)} A²s — השווה לאנרגיית המעבר (I²t) של המפסק לפי היצרן.`
+      );
+    } else {
+      thermalOk = withstand >= i2t;
+      values.I2t_צפוי_A2s = Math.round(i2t);
+      steps.push(
+        thermalOk
+          ? `הכבל ${last.areaMm2} ממ״ר עומד בעומס התרמי של הקצר (k²S² ≥ I²t).`
+          : `הכבל ${last.areaMm2} ממ״ר לא עומד בעומס התרמי של הקצר (k²S² < I²t).`
+      );
+      if (!thermalOk) cautions.push("הגדל חתך או בחר הגנה שמנתקת מהר יותר / עם אנרגיית מעבר (I²t) נמוכה יותר.");
+    }
+
+    if (last.peAreaMm2 && last.peAreaMm2 < last.areaMm2) {
+      const withstandPe = (k * last.peAreaMm2) ** 2;
+      const i2tPe = i2tFor(atBreaker.ik1);
+      values.I2t_מותר_מוליך_הגנה_A2s = Math.round(withstandPe);
+      if (i2tPe !== undefined && withstandPe < i2tPe) {
+        thermalOk = false;
+        cautions.push(`מוליך ההגנה ${last.peAreaMm2} ממ״ר לא עומד בעומס התרמי של תקלה לאדמה.`);
+      }
+    }
+  }
+
+  const failed = breakerOk === false || thermalOk === false;
+  steps.push("לבדיקת ניתוק בזמן חשוב זרם הקצר המינימלי בקצה — בדוק במחשבון לולאת התקלה.");
+
+  return {
+    kind: "calc",
+    title: "זרם קצר צפוי וכושר ניתוק",
+    bottomLine: failed
+      ? `זרם קצר ${kA(breakerFaultA)} kA במקום המפסק — יש חריגה, ראה אזהרות.`
+      : `זרם קצר צפוי: ${kA(end.ik3)} kA תלת-פאזי / ${kA(end.ik1)} kA חד-פאזי בנקודת השימוש.`,
+    steps,
+    values,
+    assumptions: [
+      `זרם קצר מרבי לפי IEC 60909 בשיטה מפושטת (c=${C_MAX}, מוליכים ב-20°C).`,
+      Number(i.sourcePsccKa) > 0
+        ? "עכבת המקור חושבה מזרם הקצר הידוע במוצא (R/X=0.1)."
+        : `עכבת השנאי לפי uk% (X/R=${TRANSFORMER_X_TO_R}); עכבת רשת המתח הגבוה הוזנחה (מחמיר).`,
+      "בלולאה החד-פאזית עכבת המקור כמו בתלת-פאזי (שנאי Dyn) ומוליך חוזר באורך המקטע.",
+      Number(i.letThroughI2t) > 0
+        ? "I²t לפי אנרגיית המעבר של המפסק שהוזנה."
+        : Number(i.clearingTimeS) > 0
+          ? `I²t לפי זמן ניתוק ${i.clearingTimeS}s — למפסק זרם-מגביל עדיף נתון I²t מהיצרן.`
+          : "ללא נתון I²t או זמן ניתוק — הבדיקה התרמית מציגה רק את הערך המותר לכבל.",
+    ],
+    cautions: cautions.length ? cautions : undefined,
+    confidence: "medium",
+  };
+}
+
+function ik(voltage: number, factor: number, z: Z) {
+  return voltage / (factor * mag(z));
+}
+
+function kA(a: number) {
+  return round(a / 1000, 2);
+}
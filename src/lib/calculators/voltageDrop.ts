@@ -1,49 +1,226 @@
 import type { Answer } from "../../types/answer";
+import { clamp, invalidInput, readQuantities, round, type FieldSpec, type ValidationError } from "./quantity";
+import { checkAtMost, voltageDropLimit, withCompliance, type ConsumerSupply } from "./regulations";
 
-export type VDropInput = {
+export type VDropSegment = {
+  label?: string;
   phase: "1P" | "3P";
   material: "Cu" | "Al";
   lengthM: number;
   currentA: number;
   areaMm2: number;
   voltageV: number;
+  cosPhi?: number;
+  reactanceOhmPerKm?: number;
 };
 
-export function calcVoltageDrop(i: VDropInput): Answer {
-  const rho = i.material === "Cu" ? 0.0175 : 0.0282;
-  const R = (rho * i.lengthM) / i.areaMm2;
+export type VDropMode = "drop" | "min_area" | "max_length";
 
-  let dV = 0;
-  if (i.phase === "1P") dV = i.currentA * (2 * R);
-  else dV = Math.sqrt(3) * i.currentA * R;
+export type VDropInput = Omit<VDropSegment, "lengthM" | "areaMm2"> & {
+  lengthM?: number; // not needed for mode "max_length"
+  areaMm2?: number; // not needed for mode "min_area"
+  mode?: VDropMode;
+  targetPct?: number; // permitted cumulative drop for the inverse modes, default the regulatory limit
+  supply?: ConsumerSupply; // where the consumer is fed from, default low voltage
+  conductorTempC?: number;
+  segments?: VDropSegment[]; // upstream segments (e.g. sub-main feeder) before this circuit
+};
+
+const RHO_20 = { Cu: 0.0175, Al: 0.0282 }; // Ω·mm²/m
+const ALPHA = { Cu: 0.00393, Al: 0.00403 }; // 1/°C
+
+const STANDARD_AREAS = [1.5, 2.5, 4, 6, 10, 16, 25, 35, 50, 70, 95, 120, 150, 185, 240, 300];
+
+// Typical reactance of multicore cables (Ω/km) by cross-section.
+const DEFAULT_REACTANCE: [number, number][] = [
+  [1.5, 0.115], [2.5, 0.11], [4, 0.105], [6, 0.1], [10, 0.095], [16, 0.09],
+  [25, 0.085], [35, 0.083], [50, 0.08], [70, 0.079], [95, 0.078], [120, 0.077],
+  [185, 0.077], [240, 0.076],
+];
+
+const DEFAULT_COS_PHI = 0.9;
+const DEFAULT_CONDUCTOR_TEMP_C = 70;
+
+const SEGMENT_SPEC: Record<
+  "phase" | "material" | "lengthM" | "areaMm2" | "currentA" | "voltageV" | "cosPhi" | "reactanceOhmPerKm",
+  FieldSpec
+> = {
+  phase: { label: "פאזה (1P/3P)", oneOf: ["1P", "3P"], required: true },
+  material: { label: "חומר מוליך (Cu/Al)", oneOf: ["Cu", "Al"], required: true },
+  lengthM: { label: "אורך כבל במטר", unit: "m", required: true },
+  areaMm2: { label: "חתך בממ״ר", unit: "mm²", required: true },
+  currentA: { label: "זרם באמפר", unit: "A", required: true },
+  voltageV: { label: "מתח הזנה", unit: "V", required: true },
+  cosPhi: { label: "cosφ", dimension: "ratio" },
+  reactanceOhmPerKm: { label: "ריאקטנס הכבל (Ω לק״מ)", unit: "Ω", min: 0 },
+};
+
+export function calcVoltageDrop(raw: VDropInput): Answer {
+  const mode = raw.mode ?? "drop";
+  const q = readQuantities(raw, {
+    ...SEGMENT_SPEC,
+    lengthM: { ...SEGMENT_SPEC.lengthM, required: mode !== "max_length" },
+    areaMm2: { ...SEGMENT_SPEC.areaMm2, required: mode !== "min_area" },
+    mode: { label: "סוג החישוב (drop/min_area/max_length)", oneOf: ["drop", "min_area", "max_length"] },
+    supply: { label: "הזנת הצרכן (lv/hv)", oneOf: ["lv", "hv"] },
+    targetPct: { label: "אחוז נפילת מתח מותר", unit: "%" },
+    conductorTempC: { label: "טמפרטורת מוליך", unit: "°C", max: 250 },
+  });
+  const errors: ValidationError[] = [...q.errors];
+  const segments = (raw.segments || []).map((s, k) => {
+    const sq = readQuantities(s, SEGMENT_SPEC);
+    errors.push(...sq.errors.map((e) => ({ ...e, field: `segments[${k}].${e.field}`, message: `מקטע ${k + 1}: ${e.message}` })));
+    return { ...s, ...sq.values } as VDropSegment;
+  });
+  if (errors.length) return withCompliance(invalidInput("חישוב נפילת מתח", errors, "חסרים נתונים לחישוב נפילת מתח."), []);
 
-  const pct = (dV / i.voltageV) * 100;
+  // From here on every numeric field is a checked number in its named unit.
+  const i = { ...raw, ...q.values } as VDropInput;
+  const limit = voltageDropLimit(i.supply);
+  const targetPct = i.targetPct ?? limit.pct;
+  const tempC = i.conductorTempC ?? DEFAULT_CONDUCTOR_TEMP_C;
+  const upstream = segments.map((s) => ({ seg: s, ...segmentDrop(s, tempC) }));
+  const upstreamPct = upstream.reduce((sum, u) => sum + u.pct, 0);
 
-  return {
+  const cosPhi = clamp(i.cosPhi ?? DEFAULT_COS_PHI, 0.1, 1);
+  const assumptions = [
+    `התנגדות מתוקנת לטמפרטורת מוליך ${tempC}°C.`,
+    `רכיב ריאקטיבי נכלל (cosφ=${round(cosPhi, 2)}); ריאקטנס ברירת מחדל לפי חתך אם לא הוזן.`,
+    "בתלת-פאזי האחוז מחושב ביחס למתח השלוב; בחד-פאזי לפי מוליך הלוך-חזור.",
+  ];
+  if (i.targetPct === undefined && mode !== "drop") assumptions.push(`אחוז הנפילה המותר לא הוזן — נלקח המרבי לפי התקנות (${limit.pct}%).`);
+  if (!upstream.length) {
+    assumptions.push(`הנפילה חושבה מתחילת המעגל; המגבלה נמדדת מ${limit.from} — אם יש הזנה לפני הלוח, הוסף אותה כמקטע.`);
+  }
+  const dropCheck = (pct: number) => checkAtMost("נפילת מתח מצטברת", pct, limit.pct, "%", limit.reg);
+  const chainValues: Record<string, number | string> = {};
+  upstream.forEach((u, k) => {
+    chainValues[`מקטע_${k + 1}`] = `${u.seg.label || "הזנה"}: ${round(u.dV, 2)}V (${round(u.pct, 2)}%)`;
+  });
+
+  if (mode === "min_area") {
+    const budgetPct = targetPct - upstreamPct;
+    const area = STANDARD_AREAS.find(
+      (a) => segmentDrop({ ...i, lengthM: Number(i.lengthM), areaMm2: a }, tempC).pct <= budgetPct
+    );
+    if (area === undefined || budgetPct <= 0) {
+      return {
+        kind: "calc",
+        title: "חתך מינימלי לפי נפילת מתח",
+        bottomLine:
+          budgetPct <= 0
+            ? `המקטעים שלפני המעגל כבר צורכים ${round(upstreamPct, 2)}% — אין מרווח למעגל הסופי.`
+            : `גם בחתך ${STANDARD_AREAS[STANDARD_AREAS.length - 1]} ממ״ר הנפילה חורגת מ-${targetPct}%.`,
+        steps: ["הגדל את חתך ההזנה, קצר את התוואי או פצל את העומס."],
+        values: { ...chainValues, נפילה_לפני_המעגל_אחוז: round(upstreamPct, 2) },
+        assumptions,
+        confidence: "low",
+      };
+    }
+    const d = segmentDrop({ ...i, lengthM: Number(i.lengthM), areaMm2: area }, tempC);
+    return withCompliance({
+      kind: "calc",
+      title: "חתך מינימלי לפי נפילת מתח",
+      bottomLine: `חתך מינימלי: ${area} ממ״ר (נפילה מצטברת ${round(upstreamPct + d.pct, 2)}%)`,
+      steps: [
+        "החתך נבחר כך שהנפילה המצטברת לא תעלה על האחוז המותר.",
+        "בדוק בנוסף את זרם ההעמסה המותר של החתך שנבחר.",
+      ],
+      values: {
+        ...chainValues,
+        חתך_ממ2: area,
+        אורך_מטר: Number(i.lengthM),
+        זרם_אמפר: i.currentA,
+        נפילה_וולט: round(d.dV, 2),
+        נפילה_אחוז: round(d.pct, 2),
+        נפילה_מצטברת_אחוז: round(upstreamPct + d.pct, 2),
+        יעד_אחוז: targetPct,
+      },
+      assumptions,
+      confidence: "medium",
+    }, [dropCheck(upstreamPct + d.pct)]);
+  }
+
+  if (mode === "max_length") {
+    const budgetPct = targetPct - upstreamPct;
+    const perMeter = segmentDrop({ ...i, lengthM: 1, areaMm2: Number(i.areaMm2) }, tempC).pct;
+    const maxLengthM = budgetPct > 0 && perMeter > 0 ? budgetPct / perMeter : 0;
+    const answer: Answer = {
+      kind: "calc",
+      title: "אורך מרבי לפי נפילת מתח",
+      bottomLine:
+        maxLengthM > 0
+          ? `אורך מרבי: ${round(maxLengthM, 0)} מטר בחתך ${i.areaMm2} ממ״ר`
+          : `המקטעים שלפני המעגל כבר צורכים ${round(upstreamPct, 2)}% — אין מרווח למעגל הסופי.`,
+      steps: ["האורך הוא בכיוון אחד מהלוח לעומס.", "בדוק בנוסף את זרם ההעמסה המותר של החתך."],
+      values: {
+        ...chainValues,
+        חתך_ממ2: Number(i.areaMm2),
+        זרם_אמפר: i.currentA,
+        אורך_מרבי_מטר: round(maxLengthM, 1),
+        נפילה_לפני_המעגל_אחוז: round(upstreamPct, 2),
+        יעד_אחוז: targetPct,
+      },
+      assumptions,
+      confidence: maxLengthM > 0 ? "medium" : "low",
+    };
+    // At the maximum length the cumulative drop is exactly the target.
+    return maxLengthM > 0 ? withCompliance(answer, [dropCheck(targetPct)]) : answer;
+  }
+
+  const d = segmentDrop({ ...i, lengthM: Number(i.lengthM), areaMm2: Number(i.areaMm2) }, tempC);
+  const totalPct = upstreamPct + d.pct;
+
+  const check = dropCheck(totalPct);
+  return withCompliance({
     kind: "calc",
     title: "חישוב נפילת מתח",
-    bottomLine: `נפילת מתח משוערת: ${round(dV, 2)}V (${round(pct, 2)}%)`,
+    bottomLine: upstream.length
+      ? `נפילת מתח מצטברת: ${round(totalPct, 2)}% (במעגל עצמו ${round(d.dV, 2)}V)`
+      : `נפילת מתח משוערת: ${round(d.dV, 2)}V (${round(d.pct, 2)}%)`,
     steps: [
       "אמת שאורך הכבל הוא בכיוון אחד מהלוח לעומס.",
-      "במרחקים גדולים או עומס אינדוקטיבי יש לחשב גם רכיב ריאקטיבי (R+X).",
-      "השווה לאחוז הנפילה המותר לפי סוג הצרכן והשימוש.",
+      check.verdict === "compliant"
+        ? `${round(totalPct, 2)}% ≤ ${limit.pct}% המותרים מ${limit.from} — עומד בתקנות.`
+        : `${round(totalPct, 2)}% > ${limit.pct}% המותרים מ${limit.from} — הגדל חתך, קצר את התוואי או פצל את העומס.`,
     ],
     values: {
+      ...chainValues,
       פאזה: i.phase,
       חומר: i.material,
-      אורך_מטר: i.lengthM,
+      אורך_מטר: Number(i.lengthM),
       זרם_אמפר: i.currentA,
-      חתך_ממ2: i.areaMm2,
+      חתך_ממ2: Number(i.areaMm2),
       מתח_וולט: i.voltageV,
-      נפילה_וולט: round(dV, 2),
-      נפילה_אחוז: round(pct, 2),
+      cos_phi: cosPhi,
+      התנגדות_אוהם_לקמ: round(d.rOhmPerKm, 3),
+      ריאקטנס_אוהם_לקמ: round(d.xOhmPerKm, 3),
+      נפילה_וולט: round(d.dV, 2),
+      נפילה_אחוז: round(d.pct, 2),
+      ...(upstream.length ? { נפילה_מצטברת_אחוז: round(totalPct, 2) } : {}),
+      נפילה_מותרת_אחוז: limit.pct,
     },
-    assumptions: ["מודל מקורב בטמפרטורת 20C וללא רכיב השראות."],
+    assumptions,
     confidence: "medium",
-  };
+  }, [check]);
+}
+
+export function segmentDrop(s: VDropSegment, tempC: number) {
+  const rOhmPerKm = (RHO_20[s.material] * 1000 * (1 + ALPHA[s.material] * (tempC - 20))) / s.areaMm2;
+  const xOhmPerKm = s.reactanceOhmPerKm ?? defaultReactance(s.areaMm2);
+  const cosPhi = clamp(s.cosPhi ?? DEFAULT_COS_PHI, 0.1, 1);
+  const sinPhi = Math.sqrt(1 - cosPhi * cosPhi);
+  const b = s.phase === "1P" ? 2 : Math.sqrt(3);
+
+  const dV = (b * s.currentA * s.lengthM * (rOhmPerKm * cosPhi + xOhmPerKm * sinPhi)) / 1000;
+  const pct = (dV / s.voltageV) * 100;
+  return { dV, pct, rOhmPerKm, xOhmPerKm };
 }
 
-function round(x: number, d = 2) {
-  const p = 10 ** d;
-  return Math.round(x * p) / p;
+export function defaultReactance(areaMm2: number) {
+  let x = DEFAULT_REACTANCE[0][1];
+  for (const [a, v] of DEFAULT_REACTANCE) {
+    if (areaMm2 >= a) x = v;
+  }
+  return x;
 }
@@ -0,0 +1,292 @@
+import type { Answer } from "../types/answer";
+import type { ChatState, ChatTopic, PendingSlot } from "../types/chat";
+import type { Route, RouteScore } from "./triage";
+import { verifyLoopFault, parseProtection } from "./calculators/loopFault";
+import { stepFlow, describeAnswers, type FlowStep } from "./flows/tree";
+import { getFlowTree, type FlowRoute } from "./flows/trees";
+
+type Slots = ChatState["slots"];
+
+export type DialogResult = {
+  route?: Route;
+  answer?: Answer;
+  state: ChatState;
+};
+
+// Topics the dialogue manager drives; everything else is left to the engine / RAG.
+type DialogTopic = Exclude<ChatTopic, "cable" | "vdrop" | "general">;
+
+const TOPIC_ROUTE: Record<DialogTopic, Route> = {
+  loop_fault: "CALC_LOOP_FAULT",
+  earthing: "CALC_LOOP_FAULT",
+  rcd: "FLOW_RCD_TRIP",
+  no_power: "FLOW_NO_POWER",
+  mcb_trip: "FLOW_MCB_TRIP",
+  overheat: "FLOW_OVERHEAT",
+  earth_fault: "FLOW_EARTH_FAULT",
+  phase_id: "FLOW_PHASE_ID",
+};
+
+// Diagnostic topics are driven by a decision tree (flows/trees) instead of slots.
+type SlotTopic = Extract<DialogTopic, "loop_fault" | "earthing">;
+type FlowTopic = Exclude<DialogTopic, SlotTopic>;
+
+const TOPIC_TREE: Record<FlowTopic, string> = {
+  rcd: "rcd_trip",
+  no_power: "no_power",
+  mcb_trip: "mcb_trip",
+  overheat: "overheat",
+  earth_fault: "earth_fault",
+  phase_id: "phase_id",
+};
+
+const TOPIC_TITLE: Record<SlotTopic, string> = {
+  loop_fault: "בדיקת לולאת תקלה",
+  earthing: "בדיקת הארקה",
+};
+
+const SLOT_QUESTION: Record<PendingSlot, string> = {
+  measurement_type: "איזו מדידה ביצעת? RA (אלקטרודה), Zs (לולאת תקלה) או PE (רציפות מוליך הגנה)?",
+  system: "מה שיטת ההארקה במתקן — TT או TN?",
+  rcd: "יש מפסק פחת? באיזו רגישות (30/100/300mA), או 'אין'?",
+  protection: "מה ההגנה על המעגל? (למשל C16)",
+  voltage: "מה מתח ההזנה — 230V או 400V?",
+  value_ohm: "מה הערך שנמדד באוהם?",
+};
+
+const SLOT_LABEL: Record<PendingSlot, string> = {
+  measurement_type: "סוג מדידה (RA / Zs / PE)",
+  system: "שיטת הארקה (TT / TN)",
+  rcd: "מפסק פחת ורגישותו",
+  protection: "הגנה (עקומה וזרם, למשל C16)",
+  voltage: "מתח הזנה",
+  value_ohm: "ערך נמדד באוהם",
+};
+
+function isDialogTopic(t: ChatTopic | undefined): t is DialogTopic {
+  return !!t && t in TOPIC_ROUTE;
+}
+
+function isFlowTopic(t: DialogTopic): t is FlowTopic {
+  return t in TOPIC_TREE;
+}
+
+// Loop and earthing checks share their slots, so a reply that reads as the other one ("12 אוהם") continues.
+function sameDialog(a: DialogTopic, b: DialogTopic) {
+  return a === b || (!isFlowTopic(a) && !isFlowTopic(b));
+}
+
+function topicForRoute(route: Route | undefined): FlowTopic | undefined {
+  return (Object.keys(TOPIC_TREE) as FlowTopic[]).find((t) => TOPIC_ROUTE[t] === route);
+}
+
+// The dialogue topic of a triage pick. CALC_LOOP_FAULT covers two: an earth-electrode
+// measurement when only the classifier's "RA" evidence fired, otherwise a Zs check.
+function topicOf(pick: Pick<RouteScore, "route" | "evidence"> | undefined): DialogTopic | undefined {
+  if (pick?.route === "CALC_LOOP_FAULT") {
+    return pick.evidence.includes("RA") && !pick.evidence.includes("Zs") ? "earthing" : "loop_fault";
+  }
+  return topicForRoute(pick?.route);
+}
+
+// Slots still needed for a topic, in the order they are asked.
+function missingSlots(slots: Slots): PendingSlot[] {
+  const out: PendingSlot[] = [];
+  if (!slots.measurement_type) out.push("measurement_type");
+  if (!slots.system || slots.system === "UNKNOWN") out.push("system");
+  if (slots.system === "TT" && slots.rcd_ma === undefined) out.push("rcd");
+  const rcdCovers = slots.system === "TT" && !!slots.rcd_ma;
+  if (!rcdCovers && !parseProtection(slots.protection)) out.push("protection");
+  if (slots.value_ohm === undefined) out.push("value_ohm");
+  return out;
+}
+
+// Reads whatever slot values a message carries. The pending slot is parsed leniently
+// (e.g. a bare number is taken as ohms when we just asked for the measured value).
+export function parseSlots(text: string, pending?: PendingSlot): Slots {
+  const s = (text || "").toLowerCase().replace(/״/g, '"');
+  const out: Slots = {};
+
+  const prot = s.match(/\b([bcd])\s?(\d{1,3})\b|\b(\d{1,3})\s?a?\s?([bcd])\b/);
+  if (prot) {
+    const parsed = parseProtection(prot[0]);
+    if (parsed) out.protection = `${parsed.curve}${parsed.ratingA}`;
+  }
+
+  const ma = s.match(/(\d{2,3})\s*(ma|מיל)/);
+  if (ma && [30, 100, 300].includes(Number(ma[1]))) out.rcd_ma = Number(ma[1]) as 30 | 100 | 300;
+  else if (pending === "rcd" && /^(אין|לא|ללא|no|none)(?=\s|$)/.test(s.trim())) out.rcd_ma = null;
+  else if (pending === "rcd" && /^(30|100|300)$/.test(s.trim())) out.rcd_ma = Number(s.trim()) as 30 | 100 | 300;
+
+  if (/\btt\b/.test(s)) out.system = "TT";
+  else if (/\btn(-c|-s|-c-s)?\b|איפוס/.test(s)) out.system = "TN";
+
+  if (/\bzs\b|לולאה/.test(s)) out.measurement_type = "ZS";
+  else if (/\bra\b|אלקטרודה/.test(s)) out.measurement_type = "RA";
+  else if (/\bpe\b|רציפות/.test(s)) out.measurement_type = "PE";
+  else if (pending === "measurement_type" && /הארקה/.test(s)) out.measurement_type = "RA";
+
+  const ohm = s.match(/(\d+(?:[.,]\d+)?)\s*(אוהם|אום|ohm|ω)/);
+  if (ohm) out.value_ohm = Number(ohm[1].replace(",", "."));
+  else if (pending === "value_ohm") {
+    const n = s.match(/^\s*(\d+(?:[.,]\d+)?)\s*$/);
+    if (n) out.value_ohm = Number(n[1].replace(",", "."));
+  }
+
+  const volt = s.match(/\b(230|400)(?!\d)\s*(v\b|וולט)?/);
+  if (volt && (volt[2] || pending === "voltage")) out.voltage = Number(volt[1]) as 230 | 400;
+
+  return out;
+}
+
+function defaultsFor(topic: SlotTopic, text: string): Slots {
+  const s = (text || "").toLowerCase();
+  if (topic === "earthing") return { measurement_type: "RA" };
+  if (topic === "loop_fault" && /zs|לולאה/.test(s)) return { measurement_type: "ZS" };
+  return {};
+}
+
+function summarize(slots: Slots): string {
+  const parts: string[] = [];
+  if (slots.measurement_type) parts.push(slots.measurement_type);
+  if (slots.system) parts.push(slots.system);
+  if (slots.protection) parts.push(slots.protection);
+  if (slots.rcd_ma) parts.push(`${slots.rcd_ma}mA`);
+  if (slots.rcd_ma === null) parts.push("ללא פחת");
+  if (slots.value_ohm !== undefined) parts.push(`${slots.value_ohm}Ω`);
+  return parts.join(", ");
+}
+
+function idle(prev: ChatState | undefined, question: string): ChatState {
+  return {
+    topic: "general",
+    stage: "collecting",
+    slots: {},
+    lastSummary: prev?.lastSummary,
+    lastUserQuestion: question,
+  };
+}
+
+export type DialogCue = {
+  detected?: Pick<RouteScore, "route" | "evidence">; // the classifier's pick; absent when it was ambiguous
+  forced?: boolean; // the user picked `detected` from Answer.choices
+  preferred?: Route; // a flow route picked in the UI
+};
+
+/**
+ * Advances a slot-filling conversation by one user turn:
+ * collecting (one pending slot at a time) → answering → done.
+ * Diagnostic topics walk their decision tree one question per turn instead.
+ * A new topic starts from the classifier's pick for the message (`cue.detected`); a forced
+ * pick always starts its topic, and `cue.preferred` starts its flow when the message names none.
+ * Returns no answer when the message is not part of a dialogue topic.
+ */
+export function advanceDialog(question: string, prev?: ChatState, cue: DialogCue = {}): DialogResult {
+  const prevTopic = prev?.topic;
+  const detected = topicOf(cue.detected);
+  if (cue.forced && detected) return startTopic(detected, question, prev);
+
+  const preferredTopic = topicForRoute(cue.preferred);
+  const next: DialogTopic | undefined = detected ?? preferredTopic;
+  const continuing =
+    isDialogTopic(prevTopic) &&
+    (prev?.stage === "collecting" || prev?.stage === "done") &&
+    (!detected || sameDialog(detected, prevTopic)) &&
+    // Picking another issue type abandons a flow in progress, but not a measurement dialogue.
+    (!preferredTopic || !!detected || preferredTopic === prevTopic || !isFlowTopic(prevTopic));
+
+  if (!continuing) {
+    return next ? startTopic(next, question, prev) : { state: idle(prev, question) };
+  }
+
+  const topic = prevTopic as DialogTopic;
+  const wordCount = question.trim().split(/\s+/).length;
+  // A longer message that fills nothing is a new question, not a reply.
+  const isNewQuestion = (filled: boolean) => !filled && (prev?.stage === "done" || wordCount > 4);
+  const restart = () => (next ? startTopic(next, question, prev) : { state: idle(prev, question) });
+
+  if (isFlowTopic(topic)) {
+    // After a finished diagnosis, a fresh "אין חשמל ..." starts over rather than revising answers.
+    if (prev?.stage === "done" && detected === topic) return restart();
+    const step = stepFlow(getFlowTree(TOPIC_TREE[topic]), prev?.flow, question);
+    if (isNewQuestion(step.understood)) return restart();
+    return respondFlow(topic, step, prev, prev?.lastUserQuestion || question);
+  }
+
+  const parsed = parseSlots(question, prev?.pendingSlot);
+  if (isNewQuestion(Object.keys(parsed).length > 0)) return restart();
+
+  const slots = { ...(prev?.slots || {}), ...parsed };
+  return respond(topic, slots, prev, prev?.lastUserQuestion || question);
+}
+
+/** Starts the diagnostic flow of a route the engine picked, keeping its position in the returned state. */
+export function startFlow(route: FlowRoute, question: string, prev?: ChatState): DialogResult {
+  const topic = topicForRoute(route);
+  if (!topic) throw new Error(`No dialogue topic for ${route}`);
+  return startTopic(topic, question, prev);
+}
+
+function startTopic(topic: DialogTopic, question: string, prev?: ChatState): DialogResult {
+  if (isFlowTopic(topic)) {
+    return respondFlow(topic, stepFlow(getFlowTree(TOPIC_TREE[topic]), undefined, question), prev, question);
+  }
+  return respond(topic, { ...defaultsFor(topic, question), ...parseSlots(question) }, prev, question);
+}
+
+function respondFlow(topic: FlowTopic, step: FlowStep, prev: ChatState | undefined, lastUserQuestion: string): DialogResult {
+  const known = describeAnswers(getFlowTree(TOPIC_TREE[topic]), step.position.answers);
+  const state: ChatState = {
+    topic,
+    stage: step.done ? "done" : "collecting",
+    slots: {},
+    flow: step.position,
+    pendingQuestion: step.done ? undefined : step.answer.followUpQuestion,
+    lastSummary: step.done ? step.answer.bottomLine : known || prev?.lastSummary,
+    lastUserQuestion,
+  };
+  const answer: Answer =
+    !step.done && step.understood && known
+      ? { ...step.answer, bottomLine: `קיבלתי: ${known}. חסר עוד פרט כדי להמשיך.` }
+      : step.answer;
+  return { route: TOPIC_ROUTE[topic], state, answer: { ...answer, chatState: state } };
+}
+
+function respond(topic: SlotTopic, slots: Slots, prev: ChatState | undefined, lastUserQuestion: string): DialogResult {
+  const route = TOPIC_ROUTE[topic];
+  const missing = missingSlots(slots);
+
+  if (missing.length) {
+    const pendingSlot = missing[0];
+    const known = summarize(slots);
+    const state: ChatState = {
+      topic,
+      stage: "collecting",
+      pendingSlot,
+      pendingQuestion: SLOT_QUESTION[pendingSlot],
+      slots,
+      lastSummary: known || prev?.lastSummary,
+      lastUserQuestion,
+    };
+    return {
+      route,
+      state,
+      answer: {
+        kind: "calc",
+        title: TOPIC_TITLE[topic],
+        bottomLine: known ? `קיבלתי: ${known}. חסר עוד פרט כדי להמשיך.` : "כדי להמשיך אני צריך עוד כמה פרטים.",
+        steps: [],
+        requiredInfo: missing.map((m) => SLOT_LABEL[m]),
+        followUpQuestion: SLOT_QUESTION[pendingSlot],
+        confidence: "low",
+        chatState: state,
+      },
+    };
+  }
+
+  // All slots are filled: the answering turn produces the answer and closes the dialogue.
+  const answering: ChatState = { topic, stage: "answering", slots, lastUserQuestion };
+  const answer = verifyLoopFault(answering.slots);
+  const state: ChatState = { ...answering, stage: "done", lastSummary: answer.bottomLine };
+  return { route, state, answer: { ...answer, chatState: state } };
+}
@@ -0,0 +1,20 @@
+/*
+ * Text embeddings for semantic retrieval. Ingest embeds every chunk and /api/ask
+ * embeds the question with the same embedder; vectors from different models are
+ * not comparable, so each chunk records the model that produced its vector.
+ */
+
+// Must match the vector(...) column in scripts/sql/search_chunks_vector.sql.
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export type Embedder = {
+  name: string;
+  model: string; // stored as chunks.embedding_model; only same-model vectors are compared
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+export function normalizeVector(v: number[]): number[] {
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+  return norm ? v.map((x) => x / norm) : v;
+}
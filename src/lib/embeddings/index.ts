@@ -0,0 +1,33 @@
+import { EMBEDDING_DIMENSIONS, type Embedder } from "./embedder";
+import { localEmbedder } from "./local";
+import { openAiEmbedder } from "./openaiCompatible";
+
+export { EMBEDDING_DIMENSIONS, type Embedder } from "./embedder";
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * The embedder from the environment, or null when semantic retrieval is off.
+ * EMBEDDINGS_PROVIDER is "openai" (any OpenAI-compatible server) or "local";
+ * it is off by default because it needs the vector migration and embedded chunks.
+ *
+ * The OpenAI-compatible embedder reads EMBEDDINGS_BASE_URL, EMBEDDINGS_API_KEY and
+ * EMBEDDINGS_MODEL, falling back to the LLM_* / OPENAI_* settings for URL and key.
+ * EMBEDDINGS_SEND_DIMENSIONS=true asks the model for EMBEDDING_DIMENSIONS-long vectors.
+ */
+export function embedderFromEnv(env: Env): Embedder | null {
+  const provider = (env.EMBEDDINGS_PROVIDER || "").trim().toLowerCase();
+  if (provider === "local") return localEmbedder(EMBEDDING_DIMENSIONS);
+  if (provider === "openai") {
+    return openAiEmbedder({
+      baseUrl: env.EMBEDDINGS_BASE_URL || env.LLM_BASE_URL || "https://api.openai.com/v1",
+      apiKey: env.EMBEDDINGS_API_KEY || env.LLM_API_KEY || env.OPENAI_API_KEY,
+      model: env.EMBEDDINGS_MODEL || "text-embedding-3-small",
+      dimensions: EMBEDDING_DIMENSIONS,
+      sendDimensions: env.EMBEDDINGS_SEND_DIMENSIONS === "true",
+      timeoutMs: Number(env.EMBEDDINGS_TIMEOUT_MS) || 10000,
+    });
+  }
+  if (provider && provider !== "none") console.warn(`Unknown EMBEDDINGS_PROVIDER "${provider}"; semantic retrieval is off`);
+  return null;
+}
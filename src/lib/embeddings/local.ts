@@ -0,0 +1,47 @@
+import { normalizeHebrewText } from "../../../lib/normalizeHebrewText";
+import { normalizeVector, type Embedder } from "./embedder";
+
+/*
+ * Feature hashing over words and character trigrams: no model, no network, and the
+ * same text always gives the same vector. Trigrams let "הארקה" and "בהארקה" share
+ * most of their features. It knows nothing of meaning, so it is for tests and
+ * offline development, not for production retrieval.
+ */
+
+export const LOCAL_EMBEDDING_MODEL = "local-hash-v1";
+
+// FNV-1a, 32 bit.
+function hash(s: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function localEmbedding(text: string, dimensions: number): number[] {
+  const v = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const h = hash(feature);
+    v[h % dimensions] += h & 0x80000000 ? -weight : weight;
+  };
+  const words = normalizeHebrewText(text).toLowerCase().match(/[\u0590-\u05ffa-z0-9]+/g) || [];
+  for (const w of words) {
+    add(`w:${w}`, 1);
+    const padded = `_${w}_`;
+    for (let i = 0; i + 3 <= padded.length; i++) add(`t:${padded.slice(i, i + 3)}`, 0.5);
+  }
+  return normalizeVector(v);
+}
+
+export function localEmbedder(dimensions: number): Embedder {
+  return {
+    name: "local",
+    model: LOCAL_EMBEDDING_MODEL,
+    dimensions,
+    async embed(texts) {
+      return texts.map((t) => localEmbedding(t, dimensions));
+    },
+  };
+}
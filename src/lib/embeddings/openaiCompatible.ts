@@ -0,0 +1,47 @@
+import type { Embedder } from "./embedder";
+
+// The /embeddings endpoint of OpenAI or any server that speaks its API.
+export type OpenAiEmbedderOptions = {
+  baseUrl: string; // up to and including the version segment, e.g. https://api.openai.com/v1
+  apiKey?: string;
+  model: string;
+  dimensions: number;
+  sendDimensions?: boolean; // text-embedding-3-* can shorten vectors; most servers reject the field
+  timeoutMs: number;
+};
+
+export function openAiEmbedder(o: OpenAiEmbedderOptions): Embedder {
+  const url = `${o.baseUrl.replace(/\/+$/, "")}/embeddings`;
+  return {
+    name: "openai",
+    model: o.model,
+    dimensions: o.dimensions,
+    async embed(texts) {
+      if (!texts.length) return [];
+      const resp = await fetch(url, {
+        method: "POST",
+        signal: AbortSignal.timeout(o.timeoutMs),
+        headers: {
+          "Content-Type": "application/json",
+          ...(o.apiKey ? { Authorization: `Bearer ${o.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: o.model,
+          input: texts,
+          ...(o.sendDimensions ? { dimensions: o.dimensions } : {}),
+        }),
+      });
+      if (!resp.ok) throw new Error(`Embeddings error: ${resp.status}`);
+
+      const data = (await resp.json()) as { data?: { index: number; embedding: number[] }[] };
+      const rows = [...(data.data || [])].sort((a, b) => a.index - b.index);
+      if (rows.length !== texts.length) throw new Error(`Embeddings error: ${rows.length} vectors for ${texts.length} texts`);
+      for (const r of rows) {
+        if (r.embedding.length !== o.dimensions) {
+          throw new Error(`Embeddings error: model returned ${r.embedding.length} dimensions, expected ${o.dimensions}`);
+        }
+      }
+      return rows.map((r) => r.embedding);
+    },
+  };
+}
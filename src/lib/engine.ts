@@ -1,72 +1,356 @@
 import type { Answer } from "../types/answer";
-import { triage } from "./triage";
+import type { ChatState } from "../types/chat";
+import { classify, isCloseScore, type Route, type TriageResult } from "./triage";
 import { calcPowerCurrent } from "./calculators/powerCurrent";
 import { calcVoltageDrop } from "./calculators/voltageDrop";
-import { flowRcdTrip } from "./flows/rcdTrip";
-import { flowNoPower } from "./flows/noPower";
+import { calcCableSize } from "./calculators/cableSize";
+import { verifyLoopFault } from "./calculators/loopFault";
+import { calcShortCircuit } from "./calculators/shortCircuit";
+import { calcLoadSchedule } from "./calculators/loadSchedule";
+import { calcMotorCircuit } from "./calculators/motorCircuit";
+import { calcPfCorrection } from "./calculators/pfCorrection";
+import { calcEarthElectrode } from "./calculators/earthElectrode";
+import { calcEvCharger } from "./calculators/evCharger";
+import { evaluateFlow } from "./flows/tree";
+import { getFlowTree, isFlowRoute, FLOW_ROUTE_TREE } from "./flows/trees";
+import { ISSUE_TYPE_ROUTE } from "./flows/issueTypes";
+import { advanceDialog, startFlow } from "./dialog";
+import {
+  describeFound,
+  extractCableSizeInput,
+  extractEarthElectrodeInput,
+  extractEvChargerInput,
+  extractLoadScheduleInput,
+  extractMotorInput,
+  extractPfCorrectionInput,
+  extractPowerCurrentInput,
+  extractShortCircuitInput,
+  extractVDropInput,
+} from "./extractParams";
 
 export type AskPayload = {
   question: string;
   modeHint?: "auto" | "calc" | "flow" | "rag";
+  issueType?: string;
   calc?: any;
   flow?: any;
+  chatState?: ChatState;
+  forceRoute?: Route; // set when the user picked a route from Answer.choices
 };
 
-export function runEngine(p: AskPayload): { route: string; answer?: Answer } {
-  const route = triage(p.question, p.modeHint === "auto" ? undefined : p.modeHint);
+export type EngineResult = { route: Route; answer?: Answer; chatState: ChatState };
 
+// Routes answered by retrieval (handled by /api/ask itself, not here).
+export function isRagRoute(route: Route) {
+  return route === "RAG_CODE" || route === "RAG_GENERAL";
+}
+
+const ROUTE_LABEL: Record<Route, string> = {
+  CALC_POWER_CURRENT: "חישוב זרם מהספק",
+  CALC_VDROP: "חישוב נפילת מתח",
+  CALC_SIMPLE_CABLE_HINT: "בחירת חתך כבל",
+  CALC_LOOP_FAULT: "בדיקת לולאת תקלה / הארקה",
+  CALC_SHORT_CIRCUIT: "זרם קצר וכושר ניתוק",
+  CALC_LOAD_SCHEDULE: "טבלת עומסים ללוח",
+  CALC_MOTOR: "מעגל מנוע והתנעה",
+  CALC_PF_CORRECTION: "שיפור מקדם הספק",
+  CALC_EARTH_ELECTRODE: "תכנון אלקטרודת הארקה (TT)",
+  CALC_EV_CHARGER: "תכנון עמדת טעינה לרכב",
+  FLOW_RCD_TRIP: "אבחון נפילת פחת",
+  FLOW_NO_POWER: "אבחון אין מתח",
+  FLOW_MCB_TRIP: "אבחון מפסק קופץ / קצר",
+  FLOW_OVERHEAT: "אבחון התחממות / עומס",
+  FLOW_EARTH_FAULT: "אבחון תקלת הארקה",
+  FLOW_PHASE_ID: "זיהוי פאזות וסדר מופעים",
+  RAG_CODE: "חוק ותקנות",
+  RAG_GENERAL: "חיפוש במאגר",
+};
+
+function resolveRoute(p: AskPayload): { route: Route; result?: TriageResult } {
+  if (p.forceRoute) return { route: p.forceRoute };
+
+  const hint = p.modeHint === "auto" ? undefined : p.modeHint;
+  const result = classify(p.question, hint);
+
+  // In flow mode the picked issue type decides when the question itself is vague.
+  if (hint === "flow" && isRagRoute(result.route) && p.issueType) {
+    const byIssue = ISSUE_TYPE_ROUTE[p.issueType];
+    if (byIssue) return { route: byIssue };
+  }
+  return { route: result.route, result };
+}
+
+function isRoute(value: unknown): value is Route {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ROUTE_LABEL, value);
+}
+
+// Lets the user pick between close routes instead of guessing.
+function chooseRoute(result: TriageResult): Answer {
+  const top = result.ranked[0];
+  const options = result.ranked.filter((r) => isCloseScore(r.score, top.score)).slice(0, 3);
+  const labels = options.map((o) => ROUTE_LABEL[o.route]);
+  return {
+    kind: top.route.startsWith("CALC_") ? "calc" : top.route.startsWith("FLOW_") ? "flow" : "rag",
+    title: "איזה סוג תשובה מתאים?",
+    bottomLine: "השאלה מתאימה לכמה מסלולים — בחר אחד כדי שלא אנחש.",
+    steps: options.map((o) => `${ROUTE_LABEL[o.route]} (${Math.round(o.confidence * 100)}%): ${o.evidence.join(", ")}`),
+    followUpQuestion: `האם התכוונת ל${labels.slice(0, -1).join(", ל")} או ל${labels[labels.length - 1]}?`,
+    choices: options.map((o) => ({ route: o.route, label: ROUTE_LABEL[o.route] })),
+    confidence: "low",
+  };
+}
+
+export function runEngine(payload: AskPayload): EngineResult {
+  // The picked route comes from the request body; anything that is not a route is ignored.
+  const p = { ...payload, forceRoute: isRoute(payload.forceRoute) ? payload.forceRoute : undefined };
+  let chatState: ChatState = { ...(p.chatState || { slots: {} }), lastUserQuestion: p.question };
+  const { route, result } = resolveRoute(p);
+  const ambiguous = !!result?.ambiguous && !p.calc && !p.flow;
+
+  // Structured calc/flow input and explicit RAG requests bypass the slot-filling dialogue.
+  if (p.modeHint !== "rag" && !p.calc && !p.flow) {
+    // Dialogues start from the classifier's pick (none when it is ambiguous) or from the route the user chose.
+    // In flow mode the issue type picked in the UI starts its flow unless the question names another topic.
+    const detected = p.forceRoute ? { route: p.forceRoute, evidence: [] } : ambiguous ? undefined : result?.ranked[0];
+    const preferred = p.modeHint === "flow" && p.issueType ? ISSUE_TYPE_ROUTE[p.issueType] : undefined;
+    const d = advanceDialog(p.question, p.chatState, { detected, forced: !!p.forceRoute, preferred });
+    if (d.answer && d.route) return { route: d.route, answer: d.answer, chatState: d.state };
+    chatState = d.state;
+  }
+
+  if (ambiguous && result) return { route, answer: chooseRoute(result), chatState };
+  const r = dispatch(p, route);
+  return { ...r, chatState: r.chatState ?? chatState };
+}
+
+// `chatState` is set by routes that start a dialogue of their own.
+function dispatch(p: AskPayload, route: Route): { route: Route; answer?: Answer; chatState?: ChatState } {
   if (route === "CALC_POWER_CURRENT") {
-    if (!p.calc) {
-      return {
-        route,
-        answer: {
-          kind: "calc",
-          title: "חישוב זרם מהספק",
-          bottomLine: "כדי לחשב זרם דרושים נתוני כניסה.",
-          steps: [],
-          requiredInfo: [
-            "פאזה (חד/תלת)",
-            "מתח (230/400V)",
-            "הספק ויחידות (kW/kVA)",
-            "cosφ ונצילות אם יש",
-          ],
-          followUpQuestion:
-            "שלח לי פאזה, מתח, הספק ויחידות כדי שאחזיר זרם מיידית.",
-          confidence: "low",
-        },
-      };
-    }
-    return { route, answer: calcPowerCurrent(p.calc) };
+    if (p.calc) return { route, answer: calcPowerCurrent(p.calc) };
+    const ex = extractPowerCurrentInput(p.question);
+    if (ex.input) return { route, answer: withExtractionNote(calcPowerCurrent(ex.input)) };
+    return {
+      route,
+      answer: {
+        kind: "calc",
+        title: "חישוב זרם מהספק",
+        bottomLine: foundLine("כדי לחשב זרם דרושים נתוני כניסה.", describeFound(ex.found)),
+        steps: [],
+        requiredInfo: ex.missing,
+        followUpQuestion:
+          "שלח לי פאזה, מתח, הספק ויחידות כדי שאחזיר זרם מיידית.",
+        confidence: "low",
+      },
+    };
   }
 
   if (route === "CALC_VDROP") {
-    if (!p.calc) {
-      return {
-        route,
-        answer: {
-          kind: "calc",
-          title: "חישוב נפילת מתח",
-          bottomLine: "כדי לחשב נפילת מתח דרושים נתוני כניסה.",
-          steps: [],
-          requiredInfo: [
-            "פאזה (חד/תלת)",
-            "אורך כבל במטר",
-            "זרם באמפר",
-            "חתך בממ״ר",
-            "חומר מוליך (Cu/Al)",
-            "מתח הזנה",
-          ],
-          followUpQuestion:
-            "שלח לי אורך, זרם, חתך, חומר ומתח כדי שאחשב נפילת מתח.",
-          confidence: "low",
-        },
-      };
-    }
-    return { route, answer: calcVoltageDrop(p.calc) };
+    if (p.calc) return { route, answer: calcVoltageDrop(p.calc) };
+    const ex = extractVDropInput(p.question);
+    if (ex.input) return { route, answer: withExtractionNote(calcVoltageDrop(ex.input), ex.assumed) };
+    return {
+      route,
+      answer: {
+        kind: "calc",
+        title: "חישוב נפילת מתח",
+        bottomLine: foundLine("כדי לחשב נפילת מתח דרושים נתוני כניסה.", describeFound(ex.found)),
+        steps: [],
+        requiredInfo: ex.missing,
+        followUpQuestion:
+          "שלח לי אורך, זרם, חתך, חומר ומתח כדי שאחשב נפילת מתח.",
+        confidence: "low",
+      },
+    };
   }
 
-  if (route === "FLOW_RCD_TRIP") return { route, answer: flowRcdTrip(p.flow || {}) };
-  if (route === "FLOW_NO_POWER") return { route, answer: flowNoPower(p.flow || {}) };
+  if (route === "CALC_SIMPLE_CABLE_HINT") {
+    if (p.calc) return { route, answer: calcCableSize(p.calc) };
+    // A cable already given by its size and length is checked for voltage drop, not sized again.
+    const vd = extractVDropInput(p.question);
+    if (vd.found.areaMm2 !== undefined && vd.found.lengthM !== undefined) return dispatch(p, "CALC_VDROP");
+    const ex = extractCableSizeInput(p.question);
+    if (ex.input) return { route, answer: withExtractionNote(calcCableSize(ex.input), ex.assumed) };
+    return {
+      route,
+      answer: {
+        kind: "calc",
+        title: "בחירת חתך כבל",
+        bottomLine: foundLine("כדי להעריך חתך כבל דרושים נתוני התקנה.", describeFound(ex.found)),
+        steps: [],
+        requiredInfo: [
+          ...ex.missing,
+          "שיטת התקנה (A1 בצינור בקיר מבודד / B1 בצינור / C על קיר או מגש / D בקרקע)",
+          "טמפרטורת סביבה וקיבוץ מעגלים",
+          "חומר מוליך (Cu/Al) וסוג בידוד (PVC/XLPE)",
+        ],
+        followUpQuestion:
+          "שלח לי זרם, שיטת התקנה וחומר המוליך כדי שאעריך חתך מינימלי.",
+        confidence: "low",
+      },
+    };
+  }
+
+  if (route === "CALC_LOOP_FAULT") {
+    return { route, answer: verifyLoopFault({ ...(p.chatState?.slots || {}), ...(p.calc || {}) }) };
+  }
+
+  if (route === "CALC_SHORT_CIRCUIT") {
+    if (p.calc) return { route, answer: calcShortCircuit(p.calc) };
+    const ex = extractShortCircuitInput(p.question);
+    if (ex.input) return { route, answer: withExtractionNote(calcShortCircuit(ex.input), ex.assumed) };
+    return {
+      route,
+      answer: {
+        kind: "calc",
+        title: "זרם קצר צפוי וכושר ניתוק",
+        bottomLine: foundLine("כדי לחשב זרם קצר צפוי דרושים נתוני המקור ושרשרת הכבלים.", describeFound(ex.found)),
+        steps: [],
+        requiredInfo: [
+          ...ex.missing,
+          "מקטעי כבל מהמוצא: אורך, חתך וחומר",
+          "כושר ניתוק המפסק (Icn/Icu) ב-kA",
+          "אנרגיית מעבר I²t של המפסק (לבדיקה התרמית), אם ידועה",
+        ],
+        followUpQuestion: "שלח לי את נתוני השנאי או זרם הקצר במוצא, ואת הכבלים עד נקודת השימוש.",
+        confidence: "low",
+      },
+    };
+  }
+
+  if (route === "CALC_LOAD_SCHEDULE") {
+    if (p.calc) return { route, answer: calcLoadSchedule(p.calc) };
+    const ex = extractLoadScheduleInput(p.question);
+    if (ex.input) return { route, answer: withExtractionNote(calcLoadSchedule(ex.input), ex.assumed) };
+    return {
+      route,
+      answer: {
+        kind: "calc",
+        title: "טבלת עומסים ללוח",
+        bottomLine: "כדי לבנות טבלת עומסים דרושה רשימת המעגלים בלוח.",
+        steps: [],
+        requiredInfo: [
+          ...ex.missing,
+          "cosφ ומקדם ביקוש לכל מעגל (ברירת מחדל 0.9 ו-1)",
+          "מקדם בו-זמניות ללוח ורזרבה לגידול, אם רלוונטי",
+        ],
+        followUpQuestion: "שלח לי את רשימת המעגלים ואבנה טבלת עומסים עם חלוקה לפאזות.",
+        confidence: "low",
+      },
+    };
+  }
+
+  if (route === "CALC_MOTOR") {
+    if (p.calc) return { route, answer: calcMotorCircuit(p.calc) };
+    const ex = extractMotorInput(p.question);
+    if (ex.input) return { route, answer: withExtractionNote(calcMotorCircuit(ex.input), ex.assumed) };
+    return {
+      route,
+      answer: {
+        kind: "calc",
+        title: "מעגל מנוע: התנעה והגנות",
+        bottomLine: foundLine("כדי לחשב את מעגל המנוע דרושים נתוני הלוחית ושיטת ההתנעה.", describeFound(ex.found)),
+        steps: [],
+        requiredInfo: [
+          ...ex.missing,
+          "פאזה ומתח הזנה",
+          "שיטת התנעה: ישירה / כוכב-משולש / מתנע רך / ממיר תדר",
+          "cosφ, נצילות ויחס זרם התנעה IA/IN מהלוחית, אם ידועים",
+          "אורך, חתך וחומר כבל ההזנה (לחישוב נפילת המתח בהתנעה)",
+        ],
+        followUpQuestion: "שלח לי את נתוני לוחית המנוע ושיטת ההתנעה, ואחזיר זרמים, מפסק וכיול ממסר.",
+        confidence: "low",
+      },
+    };
+  }
+
+  if (route === "CALC_PF_CORRECTION") {
+    if (p.calc) return { route, answer: calcPfCorrection(p.calc) };
+    const ex = extractPfCorrectionInput(p.question);
+    if (ex.input) return { route, answer: withExtractionNote(calcPfCorrection(ex.input), ex.assumed) };
+    return {
+      route,
+      answer: {
+        kind: "calc",
+        title: "שיפור מקדם הספק",
+        bottomLine: foundLine("כדי לחשב סוללת קבלים דרושים נתוני הצריכה ומקדם ההספק.", describeFound(ex.found)),
+        steps: [],
+        requiredInfo: [
+          ...ex.missing,
+          "מקדם הספק יעד (ברירת מחדל 0.95)",
+          "פאזה ומתח הזנה",
+        ],
+        followUpQuestion: "שלח לי הספק ו-cosφ, או את נתוני ה-kWh/kVArh מהחשבון, ואחשב kVAr וסוללה.",
+        confidence: "low",
+      },
+    };
+  }
+
+  if (route === "CALC_EARTH_ELECTRODE") {
+    // The RCD sensitivity may already be known from an earlier earthing dialogue.
+    const rcdMa = p.chatState?.slots.rcd_ma ?? undefined;
+    if (p.calc) return { route, answer: calcEarthElectrode({ rcdMa, ...p.calc }) };
+    const ex = extractEarthElectrodeInput(p.question);
+    if (ex.input) return { route, answer: withExtractionNote(calcEarthElectrode({ rcdMa, ...ex.input }), ex.assumed) };
+    return {
+      route,
+      answer: {
+        kind: "calc",
+        title: "הערכת התנגדות אלקטרודת הארקה",
+        bottomLine: foundLine("כדי להעריך את התנגדות האלקטרודה דרושים נתוני הקרקע והאלקטרודה.", describeFound(ex.found)),
+        steps: [],
+        requiredInfo: [
+          ...ex.missing,
+          "סוג אלקטרודה: מוט / פס / פלטה, ומידותיה",
+          "מספר מוטות במקביל והמרווח ביניהם",
+          ...(rcdMa ? [] : ["רגישות מפסק הפחת (30/100/300mA)"]),
+        ],
+        followUpQuestion: "שלח לי את ההתנגדות הסגולית ואת מידות האלקטרודה, ואבדוק מול RA × IΔn ≤ 50V.",
+        confidence: "low",
+      },
+    };
+  }
+
+  if (route === "CALC_EV_CHARGER") {
+    if (p.calc) return { route, answer: calcEvCharger(p.calc) };
+    const ex = extractEvChargerInput(p.question);
+    if (ex.input) return { route, answer: withExtractionNote(calcEvCharger(ex.input), ex.assumed) };
+    return {
+      route,
+      answer: {
+        kind: "calc",
+        title: "תכנון עמדת טעינה לרכב חשמלי",
+        bottomLine: foundLine("כדי לתכנן עמדת טעינה דרושים נתוני החיבור, העומס הקיים והמטען.", describeFound(ex.found)),
+        steps: [],
+        requiredInfo: [
+          ...ex.missing,
+          "שיטת ההתקנה של הכבל לעמדה",
+          "האם המטען כולל זיהוי זליגת DC של 6mA",
+        ],
+        followUpQuestion: "שלח לי את גודל החיבור, העומס הקיים ונתוני המטען, ואבדוק רזרבה, כבל, פחת וניהול עומסים.",
+        sources: [{ title: "המעגל – electric_vehicle_charging", section: "עמדות טעינה", url: "https://iec-hamaagal.co.il/electric_vehicle_charging" }],
+        confidence: "low",
+      },
+    };
+  }
+
+  if (isFlowRoute(route)) {
+    // Structured answers from the caller run the tree in one go; a question starts the flow's
+    // dialogue, so the reply to its first question continues the flow instead of going to RAG.
+    if (p.flow) return { route, answer: evaluateFlow(getFlowTree(FLOW_ROUTE_TREE[route]), p.flow) };
+    const d = startFlow(route, p.question, p.chatState);
+    return { route, answer: d.answer, chatState: d.state };
+  }
 
   return { route };
 }
+
+function foundLine(base: string, found: string) {
+  return found ? `${base} זיהיתי: ${found}.` : base;
+}
+
+function withExtractionNote(a: Answer, assumed: string[] = []): Answer {
+  return {
+    ...a,
+    assumptions: [...(a.assumptions || []), "נתוני הכניסה חולצו מנוסח השאלה — ודא שזוהו נכון.", ...assumed],
+  };
+}
@@ -0,0 +1,536 @@
+import type { CableSizeInput, InstallMethod } from "./calculators/cableSize";
+import type { EarthElectrodeInput } from "./calculators/earthElectrode";
+import type { EvChargerInput } from "./calculators/evCharger";
+import type { LoadCircuit, LoadScheduleInput } from "./calculators/loadSchedule";
+import type { MotorCircuitInput, MotorStartMethod } from "./calculators/motorCircuit";
+import type { PfCorrectionInput } from "./calculators/pfCorrection";
+import type { PowerCurrentInput } from "./calculators/powerCurrent";
+import { convert, findQuantity, foldUnits, parseQuantity, round, type Unit } from "./calculators/quantity";
+import type { ShortCircuitInput } from "./calculators/shortCircuit";
+import type { VDropInput } from "./calculators/voltageDrop";
+
+export type Extraction<T> = {
+  input?: T; // set only when every required field was found
+  found: Partial<T>;
+  missing: string[]; // Hebrew labels, ready for Answer.requiredInfo
+  assumed?: string[]; // defaults filled in for fields the text did not give, for Answer.assumptions
+};
+
+const NUM = String.raw`(\d+(?:[.,]\d+)?)`;
+
+function toNumber(s: string) {
+  return Number(s.replace(",", "."));
+}
+
+function findPhase(s: string): "1P" | "3P" | undefined {
+  if (/תלת|3\s*פאז|three[\s-]?phase|\b3ph?\b|\b3\s*[x×*]\s*\d/.test(s)) return "3P";
+  if (/חד[\s-]?פאז|(^|\s)חד(\s|$)|single[\s-]?phase|\b1ph?\b/.test(s)) return "1P";
+  return undefined;
+}
+
+function findVoltage(s: string) {
+  return findQuantity(s, "V");
+}
+
+function findCosPhi(s: string) {
+  const m = s.match(/(?:cos\s*(?:φ|phi|פי)?|מקדם הספק)\s*[=:]?\s*(0?[.,]\d+|1(?:[.,]0+)?)(?!\d)/);
+  return m ? toNumber(m[1]) : undefined;
+}
+
+function findEfficiency(s: string) {
+  const m = s.match(new RegExp(`(?:נצילות|efficiency|eff)\\s*[=:]?\\s*${NUM}\\s*(%)?`));
+  if (!m) return undefined;
+  const v = toNumber(m[1]);
+  return m[2] || v > 1 ? v / 100 : v;
+}
+
+function findMaterial(s: string): "Cu" | "Al" | undefined {
+  if (/אלומיני|\bal\b|\balu|alumin/.test(s)) return "Al";
+  if (/נחושת|\bcu\b|copper/.test(s)) return "Cu";
+  return undefined;
+}
+
+function findInsulation(s: string): "PVC" | "XLPE" | undefined {
+  if (/xlpe|n2xy|פוליאתילן מוצלב/.test(s)) return "XLPE";
+  if (/pvc|nyy|פי\.?וי\.?סי/.test(s)) return "PVC";
+  return undefined;
+}
+
+function findInstallMethod(s: string): InstallMethod | undefined {
+  if (/\ba1\b|בקיר מבודד/.test(s)) return "A1";
+  if (/(שיטה|method)\s*d\b|בקרקע|תת[\s-]?קרקעי|טמון/.test(s)) return "D";
+  if (/(שיטה|method)\s*c\b|על (ה)?קיר|מגש|סולם כבלים/.test(s)) return "C";
+  if (/\bb1\b|בצינור|בצנרת|בתעלה/.test(s)) return "B1";
+  return undefined;
+}
+
+// A quantity in the few characters after a cue word, for texts with several of one kind ("עומס 18A, חיבור 3x25A").
+function findQuantityAfter(s: string, cue: RegExp, to: Unit, span = 25) {
+  const m = s.match(cue);
+  if (!m || m.index === undefined) return undefined;
+  const from = m.index + m[0].length;
+  return findQuantity(s.slice(from, from + span), to);
+}
+
+// A cable length; a bare "mm" next to a cable is a cross-section written loosely, never its length.
+function findLength(s: string) {
+  const length = parseQuantity(s, "length");
+  return length && length.unit !== "mm" ? convert(length.value, length.unit, "m") : undefined;
+}
+
+// Fills the voltage from the phase (or the phase from the voltage) when only one is given.
+function completePhaseVoltage(phase?: "1P" | "3P", voltageV?: number) {
+  if (!phase && voltageV) phase = voltageV >= 380 ? "3P" : voltageV <= 240 ? "1P" : undefined;
+  if (phase && !voltageV) voltageV = phase === "3P" ? 400 : 230;
+  return { phase, voltageV };
+}
+
+export function extractPowerCurrentInput(text: string): Extraction<PowerCurrentInput> {
+  const s = foldUnits(text);
+  const found: Partial<PowerCurrentInput> = {};
+
+  // kVA first; W, kW and HP all come back in kW.
+  const kva = findQuantity(s, "kVA");
+  const kw = findQuantity(s, "kW");
+  if (kva !== undefined) Object.assign(found, { value: round(kva, 3), unit: "kVA" });
+  else if (kw !== undefined) Object.assign(found, { value: round(kw, 3), unit: "kW" });
+
+  const pv = completePhaseVoltage(findPhase(s), findVoltage(s));
+  if (pv.phase) found.phase = pv.phase;
+  if (pv.voltageV) found.voltageV = pv.voltageV;
+
+  const cosPhi = findCosPhi(s);
+  if (cosPhi !== undefined) found.cosPhi = cosPhi;
+  const efficiency = findEfficiency(s);
+  if (efficiency !== undefined) found.efficiency = efficiency;
+
+  const missing: string[] = [];
+  if (!found.phase) missing.push("פאזה (חד/תלת)");
+  if (!found.voltageV) missing.push("מתח (230/400V)");
+  if (found.value === undefined) missing.push("הספק ויחידות (kW/kVA/HP)");
+
+  return {
+    found,
+    missing,
+    input: missing.length ? undefined : (found as PowerCurrentInput),
+  };
+}
+
+export function extractVDropInput(text: string): Extraction<VDropInput> {
+  const s = foldUnits(text);
+  const found: Partial<VDropInput> = {};
+
+  const lengthM = findLength(s);
+  if (lengthM !== undefined) found.lengthM = lengthM;
+
+  const current = findQuantity(s, "A");
+  if (current !== undefined) found.currentA = current;
+
+  const area = findQuantity(s, "mm²");
+  if (area !== undefined) found.areaMm2 = area;
+
+  const material = findMaterial(s);
+  if (material) found.material = material;
+
+  const pv = completePhaseVoltage(findPhase(s), findVoltage(s));
+  if (pv.phase) found.phase = pv.phase;
+  if (pv.voltageV) found.voltageV = pv.voltageV;
+
+  const cosPhi = findCosPhi(s);
+  if (cosPhi !== undefined) found.cosPhi = cosPhi;
+
+  const pct = findQuantity(s, "%");
+  if (pct !== undefined && /מרבי|מקסימלי|מותר|max|יעד/.test(s)) found.targetPct = pct;
+
+  const missing: string[] = [];
+  if (found.lengthM === undefined) missing.push("אורך כבל במטר");
+  if (found.currentA === undefined) missing.push("זרם באמפר");
+  if (found.areaMm2 === undefined) missing.push("חתך בממ״ר");
+  if (!found.material) missing.push("חומר מוליך (Cu/Al)");
+
+  const assumed: string[] = [];
+  const defaults = { ...found };
+  if (!defaults.voltageV) {
+    defaults.phase = "1P";
+    defaults.voltageV = 230;
+    assumed.push("פאזה ומתח לא צוינו — הונחה הזנה חד-פאזית 230V.");
+  }
+
+  return {
+    found,
+    missing,
+    assumed,
+    input: missing.length ? undefined : (defaults as VDropInput),
+  };
+}
+
+// Sizing from a design current; the installation details the text leaves out get common defaults.
+export function extractCableSizeInput(text: string): Extraction<CableSizeInput> {
+  const s = foldUnits(text);
+  const found: Partial<CableSizeInput> = {};
+
+  const protectionA = findQuantityAfter(s, /מפסק|מאמ"?ת|מא"?ז|breaker|mcb/, "A");
+  if (protectionA !== undefined) found.protectionA = protectionA;
+  const current = findQuantityAfter(s, /זרם|עומס|ib\b/, "A") ?? findQuantity(s, "A");
+  if (current !== undefined) found.designCurrentA = current;
+
+  const method = findInstallMethod(s);
+  if (method) found.method = method;
+  const material = findMaterial(s);
+  if (material) found.material = material;
+  const insulation = findInsulation(s);
+  if (insulation) found.insulation = insulation;
+  const phase = findPhase(s);
+  if (phase) found.phase = phase;
+
+  const ambientC = findQuantity(s, "°C");
+  if (ambientC !== undefined) found.ambientC = ambientC;
+  const grouping = s.match(/(\d+)\s*(מעגלים|כבלים) (ביחד|בצינור|בתעלה|במגש|צמודים)/);
+  if (grouping) found.grouping = Number(grouping[1]);
+
+  const missing: string[] = [];
+  if (found.designCurrentA === undefined) missing.push("זרם תכן באמפר");
+
+  const assumed: string[] = [];
+  const defaults = { ...found };
+  if (!defaults.method) {
+    defaults.method = "B1";
+    assumed.push("שיטת התקנה לא צוינה — הונח B1 (בצינור על קיר או בתוכו).");
+  }
+  if (!defaults.material) {
+    defaults.material = "Cu";
+    assumed.push("חומר מוליך לא צוין — הונחה נחושת.");
+  }
+  if (!defaults.insulation) {
+    defaults.insulation = "PVC";
+    assumed.push("סוג בידוד לא צוין — הונח PVC.");
+  }
+
+  return {
+    found,
+    missing,
+    assumed,
+    input: missing.length ? undefined : (defaults as CableSizeInput),
+  };
+}
+
+export function extractShortCircuitInput(text: string): Extraction<ShortCircuitInput> {
+  const s = foldUnits(text);
+  const found: Partial<ShortCircuitInput> = {};
+  const assumed: string[] = [];
+
+  const kva = findQuantity(s, "kVA");
+  if (kva !== undefined) {
+    found.transformerKva = kva;
+    const uk = s.match(/(?:uk|מתח (ה)?קצר)\s*%?\s*[=:]?\s*(\d+(?:[.,]\d+)?)/);
+    const ukPct = uk ? toNumber(uk[2]) : findQuantity(s, "%");
+    if (ukPct !== undefined) found.transformerUkPct = ukPct;
+  }
+
+  const breakerKa = findQuantityAfter(s, /מפסק|icn|icu|כושר (ה)?ניתוק/, "kA");
+  if (breakerKa !== undefined) found.breakerKa = breakerKa;
+  const sourceKa = findQuantityAfter(s, /זרם (ה)?קצר|pscc|ik3?|במוצא|בנקודת (ה)?חיבור/, "kA") ?? findQuantity(s, "kA");
+  if (sourceKa !== undefined && sourceKa !== breakerKa) found.sourcePsccKa = sourceKa;
+
+  const voltageV = findVoltage(s);
+  if (voltageV) found.voltageV = voltageV;
+  const phase = findPhase(s);
+  if (phase) found.phase = phase;
+
+  // One cable from the origin to the point of use, when its length and size are both given.
+  const lengthM = findLength(s);
+  const areaMm2 = findQuantity(s, "mm²");
+  if (lengthM !== undefined && areaMm2 !== undefined) {
+    const material = findMaterial(s);
+    if (!material) assumed.push("חומר הכבל לא צוין — הונחה נחושת.");
+    found.segments = [{ lengthM, areaMm2, material: material ?? "Cu" }];
+  }
+
+  const missing: string[] = [];
+  if (found.transformerKva === undefined && found.sourcePsccKa === undefined) {
+    missing.push("הספק שנאי (kVA) ומתח קצר uk% — או זרם קצר ידוע בנקודת המוצא (kA)");
+  } else if (found.sourcePsccKa === undefined && found.transformerUkPct === undefined) {
+    missing.push("מתח הקצר של השנאי uk%");
+  }
+
+  return {
+    found,
+    missing,
+    assumed,
+    input: missing.length ? undefined : (found as ShortCircuitInput),
+  };
+}
+
+// A list of circuits, one per comma, semicolon or line: "תנור 3kW, מזגן 2.5kW תלת, תאורה 0.8kW".
+export function extractLoadScheduleInput(text: string): Extraction<LoadScheduleInput> {
+  const s = foldUnits(text);
+  const found: Partial<LoadScheduleInput> = {};
+  const circuits: LoadCircuit[] = [];
+  let unphased = false;
+
+  for (const part of s.split(/[,;\n]/)) {
+    const kva = findQuantity(part, "kVA");
+    const kw = kva === undefined ? findQuantity(part, "kW") : undefined;
+    if (kva === undefined && kw === undefined) continue;
+    const label = part.split(":").pop()!.split(/\d/)[0].replace(/[-–]\s*$/, "").trim();
+    const phase = findPhase(part);
+    if (!phase) unphased = true;
+    const circuit: LoadCircuit = {
+      label: label || `מעגל ${circuits.length + 1}`,
+      value: round((kva ?? kw) as number, 3),
+      unit: kva !== undefined ? "kVA" : "kW",
+      phase: phase ?? "1P",
+    };
+    const cosPhi = findCosPhi(part);
+    if (cosPhi !== undefined) circuit.cosPhi = cosPhi;
+    circuits.push(circuit);
+  }
+  if (circuits.length) found.circuits = circuits;
+
+  const voltageV = findVoltage(s);
+  if (voltageV && voltageV >= 380) found.voltageV = voltageV;
+  const diversity = s.match(/(?:בו[\s-]?זמניות|diversity)\s*[=:]?\s*(0?[.,]\d+)/);
+  if (diversity) found.diversityFactor = toNumber(diversity[1]);
+  const spare = findQuantityAfter(s, /רזרבה|spare/, "%");
+  if (spare !== undefined) found.sparePct = spare;
+
+  const missing: string[] = [];
+  if (!circuits.length) missing.push("לכל מעגל: שם, הספק ויחידות (kW/kVA), חד/תלת-פאזי");
+
+  return {
+    found,
+    missing,
+    assumed: unphased ? ["מעגלים שלא צוינה להם פאזה הונחו חד-פאזיים."] : [],
+    input: missing.length ? undefined : (found as LoadScheduleInput),
+  };
+}
+
+function findStartMethod(s: string): MotorStartMethod | undefined {
+  if (/ממיר תדר|מהפך תדר|vfd|inverter|variable frequency/.test(s)) return "vfd";
+  if (/מתנע רך|soft[\s-]?starter/.test(s)) return "soft_starter";
+  if (/כוכב[\s-]?משולש|star[\s-]?delta|y[\s-]?δ|y[\s-]?d\b/.test(s)) return "star_delta";
+  if (/התנעה ישירה|ישירה|\bdol\b|direct[\s-]?on[\s-]?line/.test(s)) return "DOL";
+  return undefined;
+}
+
+export function extractMotorInput(text: string): Extraction<MotorCircuitInput> {
+  const s = foldUnits(text);
+  const found: Partial<MotorCircuitInput> = {};
+  const assumed: string[] = [];
+
+  // Nameplate power stays in horsepower when given so; W and kW come back in kW.
+  const power = parseQuantity(s, "power");
+  if (power) {
+    found.unit = power.unit === "HP" ? "HP" : "kW";
+    found.power = round(power.unit === "HP" ? power.value : convert(power.value, power.unit, "kW"), 3);
+  }
+
+  const phase = findPhase(s);
+  if (phase) found.phase = phase;
+  const voltageV = findVoltage(s);
+  if (voltageV) found.voltageV = voltageV;
+  const cosPhi = findCosPhi(s);
+  if (cosPhi !== undefined) found.cosPhi = cosPhi;
+  const efficiency = findEfficiency(s);
+  if (efficiency !== undefined) found.efficiency = efficiency;
+  const startMethod = findStartMethod(s);
+  if (startMethod) found.startMethod = startMethod;
+  const startTimeS = findQuantityAfter(s, /זמן התנעה|התנעה של|start(ing)? time/, "s");
+  if (startTimeS !== undefined) found.startTimeS = startTimeS;
+
+  const lengthM = findLength(s);
+  const areaMm2 = findQuantity(s, "mm²");
+  if (lengthM !== undefined && areaMm2 !== undefined) {
+    const material = findMaterial(s);
+    if (!material) assumed.push("חומר כבל ההזנה לא צוין — הונחה נחושת.");
+    found.cable = { lengthM, areaMm2, material: material ?? "Cu" };
+  }
+
+  const missing: string[] = [];
+  if (found.power === undefined) missing.push("הספק המנוע (kW או HP)");
+
+  return {
+    found,
+    missing,
+    assumed,
+    input: missing.length ? undefined : (found as MotorCircuitInput),
+  };
+}
+
+export function extractPfCorrectionInput(text: string): Extraction<PfCorrectionInput> {
+  const s = foldUnits(text);
+  const found: Partial<PfCorrectionInput> = {};
+  const assumed: string[] = [];
+
+  const kw = findQuantity(s, "kW");
+  if (kw !== undefined) found.activeKw = round(kw, 3);
+  const kwh = findQuantity(s, "kWh");
+  if (kwh !== undefined) found.monthlyKwh = kwh;
+  const kvarh = findQuantity(s, "kVArh");
+  if (kvarh !== undefined) found.monthlyKvarh = kvarh;
+
+  const target = s.match(/(?:יעד|target|לשפר ל|עד)\s*-?\s*(?:cos\s*(?:φ|phi|פי)?\s*)?[=:]?\s*(0?[.,]\d+|1(?:[.,]0+)?)(?!\d)/);
+  if (target) found.targetCosPhi = toNumber(target[1]);
+  const cosPhi = findCosPhi(target ? s.replace(target[0], " ") : s);
+  if (cosPhi !== undefined) found.cosPhi = cosPhi;
+
+  const pv = completePhaseVoltage(findPhase(s), findVoltage(s));
+  if (pv.phase) found.phase = pv.phase;
+  if (pv.voltageV) found.voltageV = pv.voltageV;
+
+  const missing: string[] = [];
+  const fromBill = found.monthlyKwh !== undefined && found.monthlyKvarh !== undefined;
+  if (!fromBill && (found.activeKw === undefined || found.cosPhi === undefined)) {
+    missing.push("הספק פעיל (kW) ומקדם הספק נוכחי — או צריכה חודשית kWh ו-kVArh מהחשבון");
+  }
+
+  const defaults = { ...found };
+  if (!defaults.voltageV) {
+    defaults.phase = "3P";
+    defaults.voltageV = 400;
+    assumed.push("מתח ההזנה לא צוין — הונחה הזנה תלת-פאזית 400V.");
+  }
+  if (fromBill && found.activeKw !== undefined) delete defaults.activeKw; // the bill decides, kW is its average
+
+  return {
+    found,
+    missing,
+    assumed,
+    input: missing.length ? undefined : (defaults as PfCorrectionInput),
+  };
+}
+
+export function extractEarthElectrodeInput(text: string): Extraction<EarthElectrodeInput> {
+  const s = foldUnits(text);
+  const found: Partial<EarthElectrodeInput> = {};
+  const assumed: string[] = [];
+
+  const rho = findQuantity(s, "Ω·m");
+  if (rho !== undefined) found.soilResistivityOhmM = rho;
+
+  if (/פלטה|plate/.test(s)) found.type = "plate";
+  else if (/(^|\s)פס(\s|$)|פס הארקה|טבעת|strip/.test(s)) found.type = "strip";
+  else if (/מוט|rod/.test(s)) found.type = "rod";
+
+  const rods = s.match(/(\d+)\s*(מוטות|rods)/);
+  if (rods) found.rods = Number(rods[1]);
+  const spacingM = findQuantityAfter(s, /מרווח|במרחק|spacing/, "m");
+  if (spacingM !== undefined) found.spacingM = spacingM;
+  const lengthM = findQuantityAfter(s, /אורך|באורך|עומק|מוט|פס|length/, "m") ?? (spacingM === undefined ? findLength(s) : undefined);
+  if (lengthM !== undefined && lengthM !== spacingM) found.lengthM = lengthM;
+  const diameterMm = findQuantityAfter(s, /קוטר|diameter/, "mm");
+  if (diameterMm !== undefined) found.diameterMm = diameterMm;
+  const plateAreaM2 = findQuantity(s, "m²");
+  if (plateAreaM2 !== undefined) found.plateAreaM2 = plateAreaM2;
+  const rcdMa = findQuantity(s, "mA");
+  if (rcdMa !== undefined) found.rcdMa = rcdMa;
+
+  const type = found.type ?? "rod";
+  if (!found.type) assumed.push("סוג האלקטרודה לא צוין — הונח מוט הארקה.");
+
+  const missing: string[] = [];
+  if (found.soilResistivityOhmM === undefined) missing.push("התנגדות סגולית של הקרקע (Ω·m)");
+  if (type === "strip" && found.lengthM === undefined) missing.push("אורך הפס במטר");
+  if (type === "plate" && found.plateAreaM2 === undefined) missing.push("שטח הפלטה במ״ר");
+
+  return {
+    found,
+    missing,
+    assumed,
+    input: missing.length ? undefined : ({ ...found, type } as EarthElectrodeInput),
+  };
+}
+
+// Single-phase chargers go up to 32A (7.4kW); above that a charger is three-phase.
+const SINGLE_PHASE_CHARGER_MAX_KW = 7.4;
+
+export function extractEvChargerInput(text: string): Extraction<EvChargerInput> {
+  const s = foldUnits(text);
+  const found: Partial<EvChargerInput> = {};
+  const assumed: string[] = [];
+
+  // The supply is written as phases × amps: "3x25A", "1x40A".
+  const connection = s.match(/\b([13])\s*[x×*]\s*(\d+)\s*(?:a(?![a-z])|אמפר)/);
+  if (connection) {
+    found.connectionPhase = connection[1] === "3" ? "3P" : "1P";
+    found.connectionA = Number(connection[2]);
+  }
+
+  const rest = connection ? s.replace(connection[0], " ") : s;
+  const peakA = findQuantityAfter(rest, /עומס|שיא|צריכה|peak/, "A");
+  if (peakA !== undefined) found.existingPeakA = peakA;
+  const loadKw = findQuantityAfter(rest, /עומס|ביקוש|צריכה|demand/, "kW");
+  if (loadKw !== undefined) found.existingLoadKw = loadKw;
+  const chargerKw = findQuantityAfter(rest, /מטען|עמדה|עמדת|טעינה|charger|wallbox|וולבוקס/, "kW") ?? (loadKw === undefined ? findQuantity(rest, "kW") : undefined);
+  if (chargerKw !== undefined) found.chargerKw = chargerKw;
+
+  const chargerPhase = s.match(/(?:מטען|עמדה|עמדת טעינה|charger)\s*(תלת|חד)/);
+  if (chargerPhase) found.chargerPhase = chargerPhase[1] === "תלת" ? "3P" : "1P";
+  const lengthM = findLength(rest);
+  if (lengthM !== undefined) found.cableLengthM = lengthM;
+  const material = findMaterial(s);
+  if (material) found.material = material;
+  const method = findInstallMethod(s);
+  if (method) found.method = method;
+  if (/rdc[\s-]?dd|6\s*ma\s*dc|זיהוי (זליגת )?dc/.test(s)) found.chargerDcDetection = true;
+
+  const missing: string[] = [];
+  if (!found.connectionPhase) missing.push("גודל החיבור הקיים (למשל 3x25A)");
+  if (found.existingPeakA === undefined && found.existingLoadKw === undefined) {
+    missing.push("עומס שיא קיים בפאזה העמוסה (A) או הספק ביקוש (kW)");
+  }
+  if (found.chargerKw === undefined) missing.push("הספק המטען (kW)");
+  if (found.cableLengthM === undefined) missing.push("אורך הכבל מהלוח לעמדה");
+
+  const defaults = { ...found };
+  if (!defaults.chargerPhase && defaults.chargerKw !== undefined) {
+    defaults.chargerPhase = defaults.chargerKw > SINGLE_PHASE_CHARGER_MAX_KW ? "3P" : "1P";
+    assumed.push(`פאזת המטען לא צוינה — מטען עד ${SINGLE_PHASE_CHARGER_MAX_KW}kW הונח חד-פאזי, מעליו תלת-פאזי.`);
+  }
+
+  return {
+    found,
+    missing,
+    assumed,
+    input: missing.length ? undefined : (defaults as EvChargerInput),
+  };
+}
+
+const START_METHOD_LABEL: Record<MotorStartMethod, string> = {
+  DOL: "התנעה ישירה",
+  star_delta: "כוכב-משולש",
+  soft_starter: "מתנע רך",
+  vfd: "ממיר תדר",
+};
+
+// Short Hebrew summary of what was recognised, for partial answers.
+export function describeFound(found: object): string {
+  const parts: string[] = [];
+  const f = found as Partial<
+    PowerCurrentInput & VDropInput & CableSizeInput & ShortCircuitInput & LoadScheduleInput &
+      MotorCircuitInput & PfCorrectionInput & EarthElectrodeInput & EvChargerInput
+  >;
+  if (f.connectionPhase && f.connectionA !== undefined) parts.push(`חיבור ${f.connectionPhase === "3P" ? 3 : 1}x${f.connectionA}A`);
+  if (f.phase) parts.push(f.phase === "3P" ? "תלת-פאזי" : "חד-פאזי");
+  if (f.voltageV) parts.push(`${f.voltageV}V`);
+  if (f.value !== undefined) parts.push(`${f.value}${f.unit ?? ""}`);
+  if (f.power !== undefined) parts.push(`${f.power}${(found as Partial<MotorCircuitInput>).unit === "HP" ? " כ״ס" : "kW"}`);
+  if (f.activeKw !== undefined) parts.push(`${f.activeKw}kW`);
+  if (f.chargerKw !== undefined) parts.push(`מטען ${f.chargerKw}kW`);
+  if (f.transformerKva !== undefined) parts.push(`שנאי ${f.transformerKva}kVA`);
+  if (f.transformerUkPct !== undefined) parts.push(`uk ${f.transformerUkPct}%`);
+  if (f.sourcePsccKa !== undefined) parts.push(`זרם קצר במוצא ${f.sourcePsccKa}kA`);
+  if (f.breakerKa !== undefined) parts.push(`כושר ניתוק ${f.breakerKa}kA`);
+  if (f.cosPhi !== undefined) parts.push(`cosφ ${f.cosPhi}`);
+  if (f.startMethod) parts.push(START_METHOD_LABEL[f.startMethod]);
+  if (f.soilResistivityOhmM !== undefined) parts.push(`${f.soilResistivityOhmM} Ω·m`);
+  if (f.lengthM !== undefined) parts.push(`${f.lengthM} מטר`);
+  if (f.cableLengthM !== undefined) parts.push(`${f.cableLengthM} מטר`);
+  if (f.currentA !== undefined) parts.push(`${f.currentA}A`);
+  if (f.designCurrentA !== undefined) parts.push(`${f.designCurrentA}A`);
+  if (f.existingPeakA !== undefined) parts.push(`עומס קיים ${f.existingPeakA}A`);
+  if (f.areaMm2 !== undefined) parts.push(`${f.areaMm2} ממ״ר`);
+  if (f.material) parts.push(f.material);
+  if (f.circuits?.length) parts.push(`${f.circuits.length} מעגלים`);
+  return parts.join(", ");
+}
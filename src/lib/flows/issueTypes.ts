@@ -0,0 +1,12 @@
+import type { FlowRoute } from "./trees";
+
+// Issue types offered in the HomePage picker. In flow mode the picked type starts its flow directly.
+export const ISSUE_TYPE_ROUTE: Record<string, FlowRoute> = {
+  "הארקה / לולאת תקלה": "FLOW_EARTH_FAULT",
+  "פחת (RCD)": "FLOW_RCD_TRIP",
+  "קצר / מפסקים קופצים": "FLOW_MCB_TRIP",
+  "חימום כבלים / עומס": "FLOW_OVERHEAT",
+  "לוח חשמל / זיהוי פאזה": "FLOW_PHASE_ID",
+};
+
+export const ISSUE_TYPES = Object.keys(ISSUE_TYPE_ROUTE);
@@ -1,4 +1,6 @@
 import type { Answer } from "../../types/answer";
+import { evaluateFlow } from "./tree";
+import { getFlowTree } from "./trees";
 
 export type NoPowerInput = {
   scope: "whole_site" | "one_area" | "one_socket";
@@ -7,33 +9,7 @@ export type NoPowerInput = {
   hasMeterVoltage?: "yes" | "no" | "unknown";
 };
 
+// Decision tree: trees/noPower.json (slots are named after the input fields).
 export function flowNoPower(i: Partial<NoPowerInput>): Answer {
-  if (!i.scope) {
-    return {
-      kind: "flow",
-      title: "אבחון אין מתח",
-      bottomLine: "צריך להבין קודם היקף תקלה.",
-      steps: [],
-      requiredInfo: ["כל האתר / אזור אחד / שקע יחיד"],
-      followUpQuestion: "אין חשמל בכל האתר, באזור מסוים או בשקע אחד?",
-      confidence: "low",
-    };
-  }
-
-  const steps: string[] = [
-    "בדוק מצב מפסק ראשי ומפסק פחת (למעלה/למטה).",
-    "אם כל האתר ללא מתח — אמת נוכחות הזנה במונה/כניסה.",
-    "אם רק אזור מסוים — אתר את המא״ז המזין ובדוק אם קפץ.",
-    "אם שקע בודד — בדוק שקע נוסף באותו מעגל וחפש חיבור רופף.",
-    "אמת מתח עם מכשיר מדידה מתאים (לא רק בודק מגע).",
-  ];
-
-  return {
-    kind: "flow",
-    title: "אבחון אין מתח",
-    bottomLine: "אבחון לפי היקף התקלה: מקור הזנה → לוח → מעגל → נקודת קצה.",
-    steps,
-    cautions: ["אין לפתוח לוח חי ללא הסמכה והגנות מתאימות."],
-    confidence: "medium",
-  };
+  return evaluateFlow(getFlowTree("no_power"), i);
 }
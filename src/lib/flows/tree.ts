@@ -0,0 +1,269 @@
+import type { Answer, SourceRef } from "../../types/answer";
+
+/*
+ * Declarative diagnostic flows.
+ *
+ * A flow is a JSON decision tree (see ./trees). Question nodes store a typed answer
+ * under `slot`, step nodes add advice along the way, and result nodes end the flow.
+ * The interpreter is stateless: the position is just the answers collected so far,
+ * and every call re-walks the tree from `start`.
+ */
+
+export type AnswerValue = string | number | boolean;
+
+export type ChoiceOption = {
+  value: string;
+  label: string;
+  match?: string[]; // lowercase substrings that select this option in free text
+  replies?: string[]; // short whole replies, accepted only while this question is pending
+};
+
+export type AnswerSpec =
+  | { type: "choice"; options: ChoiceOption[] }
+  | { type: "number"; unit?: string; min?: number; max?: number }
+  | { type: "boolean" }
+  | { type: "text" };
+
+export type Condition = {
+  slot: string;
+  eq?: AnswerValue;
+  ne?: AnswerValue;
+  in?: AnswerValue[];
+  lt?: number;
+  lte?: number;
+  gt?: number;
+  gte?: number;
+  exists?: boolean;
+};
+
+export type Next = string | { if?: Condition; goto: string }[];
+
+export type QuestionNode = {
+  type: "question";
+  slot: string;
+  text: string; // asked as the follow-up question
+  label: string; // short form for requiredInfo
+  answer: AnswerSpec;
+  default?: AnswerValue; // makes the question optional when answers are given up front
+  next: Next;
+};
+
+export type StepNode = {
+  type: "step";
+  steps?: string[];
+  cautions?: string[];
+  sources?: SourceRef[];
+  next: Next;
+};
+
+export type ResultNode = {
+  type: "result";
+  bottomLine: string;
+  steps?: string[];
+  cautions?: string[];
+  sources?: SourceRef[];
+  confidence?: Answer["confidence"];
+};
+
+export type FlowNode = QuestionNode | StepNode | ResultNode;
+
+export type FlowTree = {
+  id: string;
+  title: string;
+  start: string;
+  cautions?: string[]; // shown on every answer of this flow
+  nodes: Record<string, FlowNode>;
+};
+
+export type FlowPosition = {
+  treeId: string;
+  node?: string; // pending question; absent once a result was reached
+  answers: Record<string, AnswerValue>;
+};
+
+export type FlowStep = {
+  answer: Answer;
+  position: FlowPosition;
+  done: boolean;
+  understood: boolean; // whether the reply filled anything
+};
+
+type Walk =
+  | { status: "pending"; node: QuestionNode; nodeId: string; steps: string[]; cautions: string[]; sources: SourceRef[] }
+  | { status: "done"; node: ResultNode; nodeId: string; steps: string[]; cautions: string[]; sources: SourceRef[] };
+
+const MAX_WALK = 200;
+
+function test(c: Condition, answers: Record<string, AnswerValue>): boolean {
+  const v = answers[c.slot];
+  if (c.exists !== undefined) return c.exists === (v !== undefined);
+  if (v === undefined) return false;
+  if (c.eq !== undefined && v !== c.eq) return false;
+  if (c.ne !== undefined && v === c.ne) return false;
+  if (c.in !== undefined && !c.in.includes(v)) return false;
+  if (c.lt !== undefined && !(Number(v) < c.lt)) return false;
+  if (c.lte !== undefined && !(Number(v) <= c.lte)) return false;
+  if (c.gt !== undefined && !(Number(v) > c.gt)) return false;
+  if (c.gte !== undefined && !(Number(v) >= c.gte)) return false;
+  return true;
+}
+
+function resolveNext(tree: FlowTree, from: string, next: Next, answers: Record<string, AnswerValue>): string {
+  if (typeof next === "string") return next;
+  const hit = next.find((b) => !b.if || test(b.if, answers));
+  if (!hit) throw new Error(`Flow ${tree.id}: no branch matched after node "${from}"`);
+  return hit.goto;
+}
+
+function walk(tree: FlowTree, given: Record<string, AnswerValue>, useDefaults: boolean): Walk {
+  const answers = { ...given };
+  const steps: string[] = [];
+  const cautions: string[] = [...(tree.cautions || [])];
+  const sources: SourceRef[] = [];
+  let id = tree.start;
+
+  for (let guard = 0; guard < MAX_WALK; guard++) {
+    const node = tree.nodes[id];
+    if (!node) throw new Error(`Flow ${tree.id}: unknown node "${id}"`);
+
+    if (node.type === "question") {
+      if (answers[node.slot] === undefined && useDefaults && node.default !== undefined) {
+        answers[node.slot] = node.default;
+      }
+      if (answers[node.slot] === undefined) return { status: "pending", node, nodeId: id, steps, cautions, sources };
+      id = resolveNext(tree, id, node.next, answers);
+      continue;
+    }
+
+    if (node.type === "step") {
+      steps.push(...(node.steps || []));
+      cautions.push(...(node.cautions || []));
+      sources.push(...(node.sources || []));
+      id = resolveNext(tree, id, node.next, answers);
+      continue;
+    }
+
+    steps.push(...(node.steps || []));
+    cautions.push(...(node.cautions || []));
+    sources.push(...(node.sources || []));
+    return { status: "done", node, nodeId: id, steps, cautions, sources };
+  }
+  throw new Error(`Flow ${tree.id}: walk exceeded ${MAX_WALK} nodes (cycle?)`);
+}
+
+export function parseAnswer(spec: AnswerSpec, text: string): AnswerValue | undefined {
+  const s = (text || "").toLowerCase().trim();
+  if (!s) return undefined;
+
+  if (spec.type === "choice") {
+    const bare = s.replace(/[.,!?]+$/, "");
+    const exact = spec.options.find(
+      (o) => bare === o.value.toLowerCase() || bare === o.label.toLowerCase() || (o.replies || []).includes(bare)
+    );
+    return (exact || spec.options.find((o) => (o.match || []).some((m) => s.includes(m))))?.value;
+  }
+  if (spec.type === "number") {
+    const m = s.match(/-?\d+(?:[.,]\d+)?/);
+    if (!m) return undefined;
+    const n = Number(m[0].replace(",", "."));
+    if (spec.min !== undefined && n < spec.min) return undefined;
+    if (spec.max !== undefined && n > spec.max) return undefined;
+    return n;
+  }
+  if (spec.type === "boolean") {
+    if (/^(כן|yes|y|נכון|בטח)(?=\s|$|[,.!])/.test(s)) return true;
+    if (/^(לא|no|n|אין)(?=\s|$|[,.!])/.test(s)) return false;
+    return undefined;
+  }
+  return s;
+}
+
+// Picks up answers to any not-yet-answered choice question whose synonyms appear in the text.
+function scanChoices(tree: FlowTree, text: string, answers: Record<string, AnswerValue>) {
+  const found: Record<string, AnswerValue> = {};
+  const s = (text || "").toLowerCase();
+  for (const node of Object.values(tree.nodes)) {
+    if (node.type !== "question" || node.answer.type !== "choice") continue;
+    if (answers[node.slot] !== undefined || found[node.slot] !== undefined) continue;
+    const hit = node.answer.options.find((o) => (o.match || []).some((m) => s.includes(m)));
+    if (hit) found[node.slot] = hit.value;
+  }
+  return found;
+}
+
+function toAnswer(tree: FlowTree, w: Walk, note?: string): Answer {
+  if (w.status === "done") {
+    return {
+      kind: "flow",
+      title: tree.title,
+      bottomLine: w.node.bottomLine,
+      steps: w.steps,
+      cautions: w.cautions.length ? w.cautions : undefined,
+      sources: w.sources.length ? w.sources : undefined,
+      confidence: w.node.confidence ?? "medium",
+    };
+  }
+  const q = w.node;
+  return {
+    kind: "flow",
+    title: tree.title,
+    bottomLine: note || "צריך עוד פרט כדי להמשיך באבחון.",
+    steps: w.steps,
+    requiredInfo: [q.answer.type === "choice" ? `${q.label}: ${q.answer.options.map((o) => o.label).join(" / ")}` : q.label],
+    followUpQuestion: q.text,
+    cautions: w.cautions.length ? w.cautions : undefined,
+    confidence: "low",
+  };
+}
+
+// Hebrew labels of the choices made so far, for chat summaries.
+export function describeAnswers(tree: FlowTree, answers: Record<string, AnswerValue>): string {
+  const parts: string[] = [];
+  for (const node of Object.values(tree.nodes)) {
+    if (node.type !== "question" || answers[node.slot] === undefined) continue;
+    const v = answers[node.slot];
+    const label = node.answer.type === "choice" ? node.answer.options.find((o) => o.value === v)?.label : undefined;
+    parts.push(label ?? `${node.label}: ${v}${node.answer.type === "number" && node.answer.unit ? node.answer.unit : ""}`);
+  }
+  return parts.join(", ");
+}
+
+/** Runs a flow non-interactively; optional questions fall back to their defaults. */
+export function evaluateFlow(tree: FlowTree, answers: Record<string, AnswerValue | undefined>): Answer {
+  const given: Record<string, AnswerValue> = {};
+  for (const [k, v] of Object.entries(answers)) if (v !== undefined) given[k] = v;
+  return toAnswer(tree, walk(tree, given, true));
+}
+
+/**
+ * Advances a flow by one user message. The reply is parsed against the pending question
+ * first, then scanned for answers to later questions given in the same message.
+ */
+export function stepFlow(tree: FlowTree, position: FlowPosition | undefined, text: string): FlowStep {
+  const answers: Record<string, AnswerValue> = { ...(position?.answers || {}) };
+  let understood = false;
+
+  const pending = position?.node ? tree.nodes[position.node] : undefined;
+  if (pending?.type === "question") {
+    const v = parseAnswer(pending.answer, text);
+    if (v !== undefined) {
+      answers[pending.slot] = v;
+      understood = true;
+    }
+  }
+
+  // Once a result was reached, a reply may revise an earlier answer ("ומה אם זה מעגל אחד?").
+  const revisable = position && !position.node ? {} : answers;
+  const scanned = scanChoices(tree, text, revisable);
+  if (Object.keys(scanned).length) understood = true;
+  Object.assign(answers, scanned);
+
+  const w = walk(tree, answers, false);
+  const note = position?.node && !understood ? "לא זיהיתי את התשובה — בחר אחת מהאפשרויות." : undefined;
+  return {
+    answer: toAnswer(tree, w, note),
+    position: { treeId: tree.id, node: w.status === "pending" ? w.nodeId : undefined, answers },
+    done: w.status === "done",
+    understood,
+  };
+}
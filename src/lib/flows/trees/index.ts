@@ -0,0 +1,39 @@
+import type { FlowTree } from "../tree";
+import type { Route } from "../../triage";
+import rcdTrip from "./rcdTrip.json";
+import noPower from "./noPower.json";
+import mcbTrip from "./mcbTrip.json";
+import overheat from "./overheat.json";
+import earthFault from "./earthFault.json";
+import phaseId from "./phaseId.json";
+
+// JSON imports widen literal types, so each tree is cast once here.
+export const FLOW_TREES: Record<string, FlowTree> = {
+  rcd_trip: rcdTrip as FlowTree,
+  no_power: noPower as FlowTree,
+  mcb_trip: mcbTrip as FlowTree,
+  overheat: overheat as FlowTree,
+  earth_fault: earthFault as FlowTree,
+  phase_id: phaseId as FlowTree,
+};
+
+export type FlowRoute = Extract<Route, `FLOW_${string}`>;
+
+export const FLOW_ROUTE_TREE: Record<FlowRoute, string> = {
+  FLOW_RCD_TRIP: "rcd_trip",
+  FLOW_NO_POWER: "no_power",
+  FLOW_MCB_TRIP: "mcb_trip",
+  FLOW_OVERHEAT: "overheat",
+  FLOW_EARTH_FAULT: "earth_fault",
+  FLOW_PHASE_ID: "phase_id",
+};
+
+export function isFlowRoute(route: Route): route is FlowRoute {
+  return route in FLOW_ROUTE_TREE;
+}
+
+export function getFlowTree(id: string): FlowTree {
+  const tree = FLOW_TREES[id];
+  if (!tree) throw new Error(`Unknown flow tree: ${id}`);
+  return tree;
+}
@@ -0,0 +1,79 @@
+import { normalizeHebrewText } from "../../lib/normalizeHebrewText";
+
+/*
+ * Query-side Hebrew normalisation. Hebrew glues the conjunction, the article and the
+ * prepositions onto the word (ו/ה/ב/ל/מ/ש/כ, also stacked: "ובמאמ"ת", "שהפחת"), so a
+ * raw split finds "בהארקה" but not "הארקה". Tokens here are folded (niqqud, gershayim,
+ * case) and prefix-stripped; stripping is checked against known words where we have
+ * them, because many words legitimately start with a prefix letter (מפסק, הארקה, לוח).
+ */
+
+// Longest first, so "וכש" is tried before "וכ" and "ו".
+const PREFIXES = [
+  "וכשה", "לכשה", "וכש", "לכש", "ושה", "ומה", "ובה", "ולה", "וכה", "כשה",
+  "וה", "וב", "ול", "ומ", "וש", "וכ", "שה", "שב", "של", "שמ", "כש", "בה", "לה", "מה", "כה", "מש",
+  "ו", "ה", "ב", "ל", "מ", "ש", "כ",
+];
+
+const MIN_STEM = 3;
+
+// Question words and particles that carry nothing for retrieval.
+const STOPWORDS = new Set([
+  "מה", "מהו", "מהי", "מהם", "איך", "האם", "כמה", "איזה", "איזו", "אילו", "למה", "מתי", "איפה",
+  "של", "על", "את", "עם", "או", "גם", "כל", "לא", "יש", "אין", "אם", "כי", "אשר", "זה", "זו", "הוא", "היא",
+  "צריך", "צריכה", "חייב", "מותר", "אפשר", "ניתן", "לפי", "בין", "עד", "רק", "אני", "לי", "שלי",
+]);
+
+/** Folds spelling variants: niqqud, gershayim/geresh to ASCII quotes, maqaf to a space, Latin case. */
+export function foldHebrew(text: string): string {
+  return normalizeHebrewText(text || "")
+    .replace(/[\u0591-\u05c7]/g, (c) => (c === "\u05be" ? " " : "")) // niqqud and cantillation; maqaf splits words
+    .replace(/[\u05f4\u201c\u201d]/g, '"')
+    .replace(/[\u05f3\u2018\u2019`]/g, "'")
+    .toLowerCase();
+}
+
+// Hebrew words may keep an inner quote (מאמ"ת, ת"י); Latin tokens keep Δ/Ω-style unit letters.
+const TOKEN = /[א-ת]+(?:["'][א-ת]+)*|[a-z0-9δωμ]+(?:[.,][0-9]+)?/g;
+
+export function tokenize(text: string): string[] {
+  return foldHebrew(text).match(TOKEN) || [];
+}
+
+const letters = (w: string) => w.replace(/["']/g, "").length;
+
+/** The word, then each prefix-stripped form that still has a stem, longest first. */
+export function prefixStems(word: string): string[] {
+  const out = [word];
+  if (!/^[א-ת]/.test(word)) return out;
+  for (const p of PREFIXES) {
+    if (word.startsWith(p) && letters(word) - p.length >= MIN_STEM) {
+      const stem = word.slice(p.length);
+      if (!out.includes(stem)) out.push(stem);
+    }
+  }
+  return out;
+}
+
+/**
+ * The base form of one token. With `isKnown` (e.g. the lexicon's vocabulary) the first
+ * known form wins; otherwise only a leading conjunction ו is taken off, the one prefix
+ * that is almost never part of the word (unless it is doubled: וולט, ווסת).
+ */
+export function stripPrefix(word: string, isKnown?: (w: string) => boolean): string {
+  const stems = prefixStems(word);
+  if (isKnown) {
+    const known = stems.find(isKnown);
+    if (known) return known;
+  }
+  if (word.startsWith("ו") && !word.startsWith("וו") && letters(word) - 1 >= MIN_STEM) return word.slice(1);
+  return word;
+}
+
+/** Folded, prefix-stripped tokens of a query, without question words. */
+export function queryTokens(text: string, isKnown?: (w: string) => boolean): string[] {
+  return tokenize(text)
+    .filter((t) => !/^[א-ת]$/.test(t)) // a prefix cut off by a hyphen: "ה-RA"
+    .filter((t) => !prefixStems(t).some((s) => STOPWORDS.has(s))) // "המותר", "שאין"
+    .map((t) => stripPrefix(t, isKnown));
+}
@@ -0,0 +1,112 @@
+import { queryTokens, tokenize } from "./hebrewQuery";
+
+/*
+ * Curated electrical vocabulary for query expansion: the names one thing goes by in
+ * the field, in the regulations and in English shorthand. A query that mentions any
+ * term of an entry is also searched with the entry's other terms, and with its related
+ * terms (the neighbouring topics the answering sections are written in).
+ */
+
+export type LexiconEntry = {
+  terms: string[]; // interchangeable; the regulations' own term first
+  related?: string[]; // not the same thing, but searched alongside it
+};
+
+export const LEXICON: LexiconEntry[] = [
+  // Protective devices
+  { terms: ['מאמ"ת', "מפסק זרם אוטומטי", "מפסק אוטומטי", "MCB"] },
+  { terms: ["מפסק מגן", "ממסר פחת", "מפסק פחת", "פחת", "RCD", "RCCB"], related: ["הארקת הגנה", "TT"] },
+  { terms: ["נתיך", "פיוז"], related: ["מבטח"] },
+
+  // Earthing systems and their quantities
+  { terms: ["הארקה"], related: ["הארקת הגנה", "איפוס", "TT", "TN", "Zs", "RA"] },
+  { terms: ["הארקת הגנה", "TT"], related: ["RA", "מפסק מגן"] },
+  { terms: ["איפוס", "TN", "TN-C-S"], related: ["Zs", "לולאת תקלה"] },
+  { terms: ["עכבת לולאת תקלה", "לולאת תקלה", "Zs"], related: ["איפוס", "TN"] },
+  { terms: ["התנגדות הארקה", "RA"], related: ["הארקת הגנה", "TT"] },
+  { terms: ["מוליך הגנה", "מוליך הארקה", "PE"] },
+  { terms: ["מוליך אפס", "אפס", "ניוטרל"] },
+  { terms: ["חישמול", "חשמול"] },
+
+  // Bathrooms and their zones
+  { terms: ["חדר רחצה", "מקלחת", "מקלחון", "אמבטיה", "אמבט"], related: ["אזור 0", "אזור 1", "אזור 2"] },
+  { terms: ["אזורי רחצה", "אזורים"], related: ["אזור 0", "אזור 1", "אזור 2", "מקלחת", "אמבט"] },
+
+  // Circuits and quantities
+  { terms: ["מפל מתח", "נפילת מתח"] },
+  { terms: ["זרם קצר", "זרם קצר חשמלי", "Isc", "Ik"] },
+  { terms: ['ממ"ר', "מילימטר רבוע", "mm2"] },
+  { terms: ["לוח חשמל", "לוח מפסקים"] },
+  { terms: ["עמדת טעינה", "מטען לרכב חשמלי", "EVSE"] },
+  { terms: ['ת"י', "תקן ישראלי"] },
+];
+
+// Base forms of everyday installation words, so "בכבל" and "שבמעגל" strip as well.
+const BASE_WORDS = [
+  "כבל", "מוליך", "גיד", "לוח", "מעגל", "מתקן", "מפסק", "שקע", "תקע", "תאורה", "גוף", "חיבור", "מתח", "זרם",
+  "הספק", "עומס", "אמפר", "וולט", "ווסת", "חתך", "צינור", "תעלה", "בידוד", "אלקטרודה", "מנוע", "קבל", "דוד",
+  "מזגן", "דירה", "בניין", "מבנה", "קו", "הזנה", "חיווט", "שיטה", "בדיקה", "תקנה", "תקנות", "חוק", "סעיף",
+];
+
+// Every word of a term, and the base words: the forms prefix stripping may stop at.
+const VOCABULARY = new Set(
+  [...LEXICON.flatMap((e) => [...e.terms, ...(e.related || [])]), ...BASE_WORDS].flatMap((t) => tokenize(t))
+);
+
+export const isLexiconWord = (w: string) => VOCABULARY.has(w);
+
+const termTokens = (term: string) => tokenize(term);
+
+// Position of `needle` as a contiguous run in `hay`, or -1.
+function findRun(hay: string[], needle: string[]) {
+  outer: for (let i = 0; i + needle.length <= hay.length; i++) {
+    for (let j = 0; j < needle.length; j++) if (hay[i + j] !== needle[j]) continue outer;
+    return i;
+  }
+  return -1;
+}
+
+/** A query's tokens, folded and prefix-stripped against the lexicon's vocabulary. */
+export function normalizeQuery(text: string): string[] {
+  return queryTokens(text, isLexiconWord);
+}
+
+export type QueryExpansion = {
+  tokens: string[]; // the normalised query
+  matched: { entry: LexiconEntry; term: string }[];
+  alternatives: string[]; // the normalised query with a matched term swapped for each synonym
+  synonyms: string[]; // the other terms of every matched entry
+  related: string[];
+};
+
+export function expandQuery(text: string): QueryExpansion {
+  const tokens = normalizeQuery(text);
+  const matched: QueryExpansion["matched"] = [];
+  const alternatives: string[] = [];
+  const synonyms: string[] = [];
+  const related: string[] = [];
+  const add = (list: string[], v: string) => {
+    if (!list.includes(v)) list.push(v);
+  };
+
+  for (const entry of LEXICON) {
+    // The longest term that occurs wins, so "מפסק זרם אוטומטי" is not also read as "מפסק אוטומטי".
+    const hit = [...entry.terms]
+      .sort((a, b) => termTokens(b).length - termTokens(a).length)
+      .map((term) => ({ term, at: findRun(tokens, termTokens(term)) }))
+      .find((h) => h.at >= 0);
+    if (!hit) continue;
+    matched.push({ entry, term: hit.term });
+    const n = termTokens(hit.term).length;
+    for (const other of entry.terms) {
+      if (other === hit.term) continue;
+      add(synonyms, other);
+      add(alternatives, [...tokens.slice(0, hit.at), other, ...tokens.slice(hit.at + n)].join(" "));
+    }
+    for (const r of entry.related || []) add(related, r);
+  }
+
+  // A related term the query already says, or one that is a synonym, adds nothing.
+  const said = new Set([...matched.map((m) => m.term), ...synonyms]);
+  return { tokens, matched, alternatives, synonyms, related: related.filter((r) => !said.has(r)) };
+}
@@ -0,0 +1,85 @@
+import { normalizeHebrewText } from "../../../lib/normalizeHebrewText";
+import { isJunkSnippet } from "../snippets";
+import type { AnswerRequest, LlmProvider, ProviderSettings, RagAnswer } from "./provider";
+
+// Builds the answer straight from the retrieved text, so /api/ask works with no model at all.
+export function extractiveProvider(settings: ProviderSettings = { timeoutMs: 5000, retries: 0, backoffMs: 0 }): LlmProvider {
+  return {
+    name: "extractive",
+    settings,
+    async answer(req) {
+      return extractiveAnswer(req);
+    },
+  };
+}
+
+export function extractiveAnswer({ question, context, sources }: AnswerRequest): RagAnswer {
+  const summaryLines: string[] = [];
+  const seenSections = new Set<string>();
+
+  for (const ctx of context.slice(0, 3)) {
+    if (seenSections.has(ctx.section)) continue;
+    seenSections.add(ctx.section);
+    
+    // Extract key sentence from context (first meaningful sentence)
+    const text = normalizeHebrewText(ctx.text).trim();
+    
+    // Skip junk snippets
+    if (isJunkSnippet(text, question)) continue;
+    
+    // Find first meaningful sentence (not just page refs or standards list)
+    const sentences = text.split(/[.!?]\s+/);
+    let firstSentence = "";
+    for (const sent of sentences) {
+      const clean = sent.trim();
+      if (clean.length < 20) continue;
+      if (isJunkSnippet(clean, question)) continue;
+      firstSentence = clean;
+      break;
+    }
+    
+    // If no good sentence found, try first 200 chars
+    if (!firstSentence) {
+      firstSentence = text.slice(0, 200).trim();
+      if (isJunkSnippet(firstSentence, question)) continue;
+    }
+    
+    if (firstSentence.length > 20 && firstSentence.length < 300) {
+      // Clean up: remove section prefix if present, keep only the meaningful text
+      const cleanSentence = firstSentence.replace(/^[^\u0590-\u05ff]*[\u0590-\u05ff]+\s*[:\-]\s*/, "").trim();
+      if (cleanSentence.length > 20 && !isJunkSnippet(cleanSentence, question)) {
+        summaryLines.push(cleanSentence);
+      }
+    }
+  }
+
+  const bottomLine = summaryLines.length > 0
+    ? summaryLines[0]
+    : `מצאתי ${sources.length} מקור${sources.length > 1 ? "ות" : ""} רלוונטי${sources.length > 1 ? "ים" : ""} לשאלה שלך.`;
+
+  const steps = summaryLines.slice(1, 3); // Max 2 additional sentences, no bullet points
+
+  // Determine confidence based on source quality
+  let confidence: "high" | "medium" | "low" = "medium";
+  if (sources.length >= 3 && context.some((c) => (c.rank || 0) > 0.5)) {
+    confidence = "high";
+  } else if (sources.length === 0) {
+    confidence = "low";
+  }
+
+  // Optional follow-up question if confidence is low
+  const followUpQuestion = confidence === "low" && sources.length > 0
+    ? "כדי לדייק (אופציונלי): באיזה הקשר מדובר ומה בדיוק אתה רוצה לדעת/לאשר?"
+    : undefined;
+
+  return {
+    kind: "rag",
+    title: "חוק ותקנות",
+    bottomLine,
+    steps,
+    cautions: ["לפני עבודה בשטח—פועלים לפי תקנות/תקנים ונהלי בטיחות."],
+    sources,
+    followUpQuestion,
+    confidence,
+  };
+}
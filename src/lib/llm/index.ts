@@ -0,0 +1,51 @@
+import { extractiveProvider } from "./extractive";
+import { localProvider } from "./local";
+import { openAiCompatibleProvider } from "./openaiCompatible";
+import { settingsFromEnv, type LlmProvider } from "./provider";
+
+export { generateAnswer, type AnswerRequest, type LlmProvider, type RagAnswer } from "./provider";
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * The provider chain from the environment. LLM_PROVIDERS lists it in order
+ * ("openai", "local", "extractive"); by default it is the OpenAI-compatible
+ * endpoint when one is configured. Extractive always closes the chain.
+ *
+ * The OpenAI-compatible provider reads LLM_BASE_URL, LLM_API_KEY and LLM_MODEL,
+ * falling back to OPENAI_API_KEY / OPENAI_MODEL; LLM_JSON_MODE=false drops
+ * response_format for servers that reject it.
+ */
+export function providersFromEnv(env: Env): LlmProvider[] {
+  const apiKey = env.LLM_API_KEY || env.OPENAI_API_KEY;
+  const remote = !!(apiKey || env.LLM_BASE_URL);
+  const names = (env.LLM_PROVIDERS || (remote ? "openai" : "extractive"))
+    .split(",")
+    .map((n) => n.trim().toLowerCase())
+    .filter(Boolean);
+
+  const chain: LlmProvider[] = [];
+  for (const name of names) {
+    if (name === "openai") {
+      if (!remote) {
+        console.warn("LLM provider openai skipped: no LLM_API_KEY, OPENAI_API_KEY or LLM_BASE_URL");
+        continue;
+      }
+      chain.push(
+        openAiCompatibleProvider({
+          baseUrl: env.LLM_BASE_URL || "https://api.openai.com/v1",
+          apiKey,
+          model: env.LLM_MODEL || env.OPENAI_MODEL || "gpt-4o-mini",
+          jsonMode: env.LLM_JSON_MODE !== "false",
+          settings: settingsFromEnv("openai", { timeoutMs: 30000, retries: 1, backoffMs: 500 }, env),
+        })
+      );
+    } else if (name === "local") {
+      chain.push(localProvider(settingsFromEnv("local", { timeoutMs: 2000, retries: 0, backoffMs: 0 }, env)));
+    } else if (name !== "extractive") {
+      console.warn(`Unknown LLM provider "${name}" ignored`);
+    }
+  }
+  chain.push(extractiveProvider(settingsFromEnv("extractive", { timeoutMs: 5000, retries: 0, backoffMs: 0 }, env)));
+  return chain;
+}
@@ -0,0 +1,58 @@
+import { draftFromPartialJson } from "../askStream";
+import { parseJsonAnswer } from "./openaiCompatible";
+import type { AnswerRequest, LlmProvider, ProviderSettings } from "./provider";
+
+/*
+ * A model stand-in with no network and no randomness: the same request always gives
+ * the same JSON text. It goes through the same path as a real model's output (chunked
+ * drafts, then JSON parsing), so tests and air-gapped installs exercise the whole chain.
+ */
+
+const CHUNK = 24;
+
+export function localProvider(settings: ProviderSettings = { timeoutMs: 2000, retries: 0, backoffMs: 0 }): LlmProvider {
+  return {
+    name: "local",
+    settings,
+    async answer(req, signal) {
+      const txt = JSON.stringify(localAnswer(req));
+      if (req.onDraft) {
+        let shown = "";
+        for (let end = CHUNK; end < txt.length + CHUNK; end += CHUNK) {
+          if (signal.aborted) throw signal.reason;
+          const draft = draftFromPartialJson(txt.slice(0, end));
+          const key = JSON.stringify(draft);
+          if (draft.bottomLine && key !== shown) {
+            shown = key;
+            req.onDraft(draft);
+          }
+        }
+      }
+      return parseJsonAnswer(txt);
+    },
+  };
+}
+
+function firstSentence(text: string) {
+  const s = text.replace(/\s+/g, " ").trim().split(/(?<=[.!?])\s/)[0] || "";
+  return s.length > 200 ? `${s.slice(0, 200)}…` : s;
+}
+
+// In the model's wire format: sources and support as SOURCE numbers.
+export function localAnswer({ context }: AnswerRequest) {
+  const top = context[0];
+  const rest = context.slice(1, 4);
+  return {
+    kind: "rag",
+    title: "חוק ותקנות",
+    bottomLine: top
+      ? `לפי ${top.title} (${top.section}): ${firstSentence(top.text)}`
+      : "לא נמצאו מקורות מתאימים לשאלה.",
+    steps: rest.map((c) => `${c.title} (${c.section}): ${firstSentence(c.text)}`),
+    cautions: ["לפני עבודה בשטח—פועלים לפי תקנות/תקנים ונהלי בטיחות."],
+    sources: context.map((_, i) => i + 1),
+    support: { bottomLine: 1, steps: rest.map((_, i) => i + 2) },
+    followUpQuestion: top ? undefined : "כדי לדייק (אופציונלי): באיזה הקשר מדובר?",
+    confidence: context.length >= 3 ? "medium" : "low",
+  };
+}
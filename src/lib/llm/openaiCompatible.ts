@@ -0,0 +1,121 @@
+import { draftFromPartialJson, readSse, type AnswerDraft } from "../askStream";
+import { invalidOutput, providerError, type AnswerRequest, type LlmProvider, type ProviderSettings } from "./provider";
+
+// Chat-completions over HTTP: OpenAI itself, or any server that speaks its API (vLLM, llama.cpp, Ollama, ...).
+export type OpenAiCompatibleOptions = {
+  name?: string;
+  baseUrl: string; // up to and including the version segment, e.g. https://api.openai.com/v1
+  apiKey?: string; // self-hosted servers often need none
+  model: string;
+  jsonMode?: boolean; // response_format json_object; off for servers that reject it
+  temperature?: number;
+  maxTokens?: number;
+  settings: ProviderSettings;
+};
+
+export const SYSTEM = `
+You are a professional assistant for electricians in Israel.
+You must answer ONLY using the provided sources (Hebrew PDFs: law/regulations/guidance).
+Give a fast, concrete answer in Hebrew (2-6 short bullet points), then provide sources (title + section).
+Do NOT paste raw excerpts. Paraphrase rules.
+Ask at most ONE optional follow-up question ONLY if needed to be more precise.
+If sources are insufficient, say so briefly and ask ONE clarifying question (optional).
+Do NOT provide step-by-step field procedures; keep it legal/regulatory.
+Return ONLY valid JSON matching the schema:
+{"title": string, "bottomLine": string, "steps": string[], "cautions": string[],
+ "sources": number[], "support": {"bottomLine": number, "steps": number[]},
+ "followUpQuestion"?: string, "confidence": "high" | "medium" | "low"}
+"sources" and "support" use SOURCE numbers: support gives, for the bottom line and for each step,
+the one SOURCE whose text states it. Never cite anything that is not a SOURCE below.
+`;
+
+export function buildUserPrompt(req: AnswerRequest) {
+  const ctxBlocks = req.context
+    .slice(0, 5)
+    .map((c, i) => `SOURCE ${i + 1}\nTITLE: ${c.title}\nSECTION: ${c.section}\nTEXT: ${c.text}`)
+    .join("\n\n");
+
+  return `
+QUESTION: ${req.question}
+
+RECENT CHAT (last 6):
+${req.conversation.map((m) => `${m.role.toUpperCase()}: ${m.content}`).join("\n")}
+
+SOURCES:
+${ctxBlocks}
+
+CITATIONS (use only these in sources list):
+${JSON.stringify(req.sources)}
+${req.rejected ? `\nYOUR PREVIOUS REPLY WAS REJECTED (${req.rejected}). Reply again with JSON matching the schema.\n` : ""}`;
+}
+
+export function openAiCompatibleProvider(o: OpenAiCompatibleOptions): LlmProvider {
+  const name = o.name ?? "openai";
+  const url = `${o.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    name,
+    settings: o.settings,
+    async answer(req, signal) {
+      const resp = await fetch(url, {
+        method: "POST",
+        signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(o.apiKey ? { Authorization: `Bearer ${o.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: o.model,
+          temperature: o.temperature ?? 0.1,
+          max_tokens: o.maxTokens ?? 650,
+          messages: [
+            { role: "system", content: SYSTEM },
+            { role: "user", content: buildUserPrompt(req) },
+          ],
+          ...(o.jsonMode === false ? {} : { response_format: { type: "json_object" } }),
+          stream: !!req.onDraft,
+        }),
+      });
+
+      if (!resp.ok) {
+        const retryable = resp.status === 408 || resp.status === 429 || resp.status >= 500;
+        throw providerError(`${name} error: ${resp.status}`, retryable, resp.status);
+      }
+      const txt = req.onDraft && resp.body ? await streamCompletion(resp.body, req.onDraft) : await completionText(resp);
+      if (!txt) throw providerError("Empty model response", true);
+      return parseJsonAnswer(txt);
+    },
+  };
+}
+
+// Models without a JSON mode sometimes wrap the object in a code fence or a sentence.
+export function parseJsonAnswer(txt: string): unknown {
+  const start = txt.indexOf("{");
+  const end = txt.lastIndexOf("}");
+  try {
+    return JSON.parse(start >= 0 && end > start ? txt.slice(start, end + 1) : txt);
+  } catch {
+    throw invalidOutput("Model response is not valid JSON");
+  }
+}
+
+async function completionText(resp: Response): Promise<string | undefined> {
+  const data = await resp.json();
+  return data?.choices?.[0]?.message?.content?.trim();
+}
+
+// Accumulates the streamed JSON and reports the draft whenever its visible text grows.
+async function streamCompletion(body: ReadableStream<Uint8Array>, onDraft: (draft: AnswerDraft) => void) {
+  let txt = "";
+  let shown = "";
+  for await (const frame of readSse(body)) {
+    if (frame.data === "[DONE]") break;
+    txt += JSON.parse(frame.data)?.choices?.[0]?.delta?.content ?? "";
+    const draft = draftFromPartialJson(txt);
+    const key = JSON.stringify(draft);
+    if (draft.bottomLine && key !== shown) {
+      shown = key;
+      onDraft(draft);
+    }
+  }
+  return txt.trim();
+}
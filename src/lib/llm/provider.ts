@@ -0,0 +1,124 @@
+import type { Answer, SourceRef } from "../../types/answer";
+import type { AnswerDraft } from "../askStream";
+import { checkRagAnswer } from "./validate";
+
+/*
+ * Answer generation behind one interface. /api/ask hands every provider the same
+ * request (question, ranked context, citable sources) and gets a RAG answer back;
+ * providers are tried in order, each with its own timeout, retry and backoff, and
+ * the extractive provider at the end of the chain always answers.
+ */
+
+export type RagAnswer = {
+  kind: "rag";
+  title: string;
+  bottomLine: string;
+  steps: string[];
+  cautions: string[];
+  sources: SourceRef[];
+  followUpQuestion?: string;
+  confidence: "high" | "medium" | "low";
+  support?: Answer["support"];
+};
+
+export type ContextBlock = SourceRef & { text: string; rank?: number };
+
+export type AnswerRequest = {
+  question: string;
+  context: ContextBlock[];
+  sources: SourceRef[]; // the only citations an answer may use
+  conversation: { role: "user" | "assistant"; content: string }[];
+  onDraft?: (draft: AnswerDraft) => void; // set for streaming requests
+  rejected?: string; // why the previous output was refused, on the one retry after it
+};
+
+export type ProviderSettings = {
+  timeoutMs: number;
+  retries: number; // extra attempts after the first
+  backoffMs: number; // doubled after each failed attempt
+};
+
+export type LlmProvider = {
+  name: string;
+  settings: ProviderSettings;
+  answer(req: AnswerRequest, signal: AbortSignal): Promise<unknown>; // raw output, checked by generateAnswer
+};
+
+export type ProviderError = Error & { retryable: boolean; status?: number; invalidOutput?: boolean };
+
+export function providerError(message: string, retryable: boolean, status?: number): ProviderError {
+  return Object.assign(new Error(message), { retryable, status });
+}
+
+// The provider answered, but with something we cannot show; worth exactly one more request.
+export function invalidOutput(message: string): ProviderError {
+  return Object.assign(providerError(message, false), { invalidOutput: true });
+}
+
+// Timeouts, dropped connections, rate limits and server errors are worth another attempt.
+function isRetryable(e: unknown) {
+  if (e && typeof e === "object" && "retryable" in e) return !!(e as ProviderError).retryable;
+  return e instanceof Error && (e.name === "AbortError" || e.name === "TimeoutError" || e instanceof TypeError);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** One provider with its timeout and retry policy; throws the last error when every attempt fails. */
+export async function callProvider(provider: LlmProvider, req: AnswerRequest): Promise<unknown> {
+  const { timeoutMs, retries, backoffMs } = provider.settings;
+  for (let attempt = 0; ; attempt++) {
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(providerError(`${provider.name}: timeout after ${timeoutMs}ms`, true)), timeoutMs);
+    try {
+      return await provider.answer(req, ctrl.signal);
+    } catch (e) {
+      const err = ctrl.signal.aborted ? ctrl.signal.reason : e;
+      if (attempt >= retries || !isRetryable(err)) throw err;
+      await sleep(backoffMs * 2 ** attempt);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Tries the providers in order and reports which one answered. Each output is
+ * validated and its citations checked; unusable output gets one retry that tells
+ * the provider what was wrong, then the next provider is tried.
+ */
+export async function generateAnswer(
+  providers: LlmProvider[],
+  req: AnswerRequest
+): Promise<{ answer: RagAnswer; provider: string; repairs: string[] }> {
+  let last: unknown = new Error("No LLM provider configured");
+  for (const p of providers) {
+    let attempt: AnswerRequest = req;
+    for (let round = 0; round < 2; round++) {
+      try {
+        const { answer, repairs } = checkRagAnswer(await callProvider(p, attempt), req);
+        if (repairs.length) console.warn(`LLM provider ${p.name} output repaired:`, repairs.join("; "));
+        return { answer, provider: p.name, repairs };
+      } catch (e) {
+        last = e;
+        console.warn(`LLM provider ${p.name} failed:`, e instanceof Error ? e.message : e);
+        if (!(e as ProviderError)?.invalidOutput) break;
+        attempt = { ...req, rejected: (e as Error).message };
+      }
+    }
+  }
+  throw last;
+}
+
+/** Per-provider overrides: LLM_<NAME>_TIMEOUT_MS, LLM_<NAME>_RETRIES, LLM_<NAME>_BACKOFF_MS. */
+export function settingsFromEnv(name: string, defaults: ProviderSettings, env: Record<string, string | undefined>): ProviderSettings {
+  const key = `LLM_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+  const num = (suffix: string, fallback: number) => {
+    const v = Number(env[key + suffix]);
+    return env[key + suffix] !== undefined && Number.isFinite(v) && v >= 0 ? v : fallback;
+  };
+  return {
+    timeoutMs: num("TIMEOUT_MS", defaults.timeoutMs),
+    retries: num("RETRIES", defaults.retries),
+    backoffMs: num("BACKOFF_MS", defaults.backoffMs),
+  };
+}
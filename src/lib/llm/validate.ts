@@ -0,0 +1,148 @@
+import { normalizeHebrewText } from "../../../lib/normalizeHebrewText";
+import type { SourceRef, SupportLink } from "../../types/answer";
+import { invalidOutput, type AnswerRequest, type RagAnswer } from "./provider";
+
+/*
+ * The model's output is untrusted input. Before it reaches the user it must have the
+ * RagAnswer shape, cite only sections we retrieved for this question, and point each
+ * statement at the chunk that backs it. Small defects are repaired here; output that
+ * cannot be repaired is rejected so the provider is asked once more.
+ */
+
+const MAX_STEPS = 6;
+const CONFIDENCE = ["high", "medium", "low"] as const;
+
+// Share of a statement's words found in a chunk: a claimed link below the first is
+// not believed, and a statement is only matched to a chunk itself above the second.
+const CLAIM_OVERLAP = 0.15;
+const MATCH_OVERLAP = 0.25;
+
+export type CheckedAnswer = { answer: RagAnswer; repairs: string[] };
+
+const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+const key = (s: { title?: unknown; section?: unknown }) =>
+  `${normalizeHebrewText(str(s.title))}||${normalizeHebrewText(str(s.section))}`.toLowerCase().replace(/\s+/g, " ");
+
+// Function words every chunk has; matching on them alone would "support" anything.
+const STOPWORDS = new Set(["של", "על", "את", "עם", "או", "גם", "כל", "לא", "יש", "אין", "אם", "כי", "אשר", "לפי", "בין", "הוא", "היא", "זה", "זו", "רק", "עד", "the", "of", "and", "or"]);
+
+function words(text: string) {
+  return (normalizeHebrewText(text).toLowerCase().match(/[\u0590-\u05ffa-z0-9]{2,}/g) || []).filter((w) => !STOPWORDS.has(w));
+}
+
+function overlap(statement: string, chunk: string) {
+  const s = words(statement);
+  if (!s.length) return 0;
+  const c = new Set(words(chunk));
+  return s.filter((w) => c.has(w)).length / s.length;
+}
+
+// A "SOURCE n" number (1-based) or a {title, section} object, resolved to a context index.
+function contextIndex(ref: unknown, req: AnswerRequest): number {
+  const n = typeof ref === "number" ? ref : typeof ref === "string" && /^\d+$/.test(ref.trim()) ? Number(ref) : NaN;
+  if (Number.isInteger(n)) return n >= 1 && n <= req.context.length ? n - 1 : -1;
+  if (ref && typeof ref === "object") return req.context.findIndex((c) => key(c) === key(ref));
+  return -1;
+}
+
+// The claimed chunk if it plausibly says this, otherwise the closest chunk if it is close enough.
+function supportFor(statement: string, claimed: unknown, req: AnswerRequest) {
+  const i = contextIndex(claimed, req);
+  if (i >= 0 && overlap(statement, req.context[i].text) >= CLAIM_OVERLAP) return { index: i, claimed: true };
+  let best = -1;
+  let bestScore = MATCH_OVERLAP;
+  req.context.forEach((c, k) => {
+    const score = overlap(statement, c.text);
+    if (score >= bestScore) {
+      best = k;
+      bestScore = score;
+    }
+  });
+  return best >= 0 ? { index: best, claimed: i === best } : null;
+}
+
+function excerpt(text: string) {
+  const t = normalizeHebrewText(text).replace(/\s+/g, " ").trim();
+  return t.length > 240 ? `${t.slice(0, 240)}…` : t;
+}
+
+/** Validates and repairs a provider's raw output; throws invalidOutput when it cannot be used. */
+export function checkRagAnswer(raw: unknown, req: AnswerRequest): CheckedAnswer {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw invalidOutput("Answer is not a JSON object");
+  const o = raw as Record<string, unknown>;
+  const repairs: string[] = [];
+
+  const bottomLine = str(o.bottomLine);
+  if (!bottomLine) throw invalidOutput("Answer has no bottomLine");
+
+  let steps: string[];
+  if (Array.isArray(o.steps)) steps = o.steps.map(str).filter(Boolean);
+  else if (typeof o.steps === "string") {
+    steps = o.steps.split(/\n+/).map((s) => s.trim()).filter(Boolean);
+    repairs.push("steps: string split into lines");
+  } else {
+    steps = [];
+    if (o.steps !== undefined) repairs.push("steps: dropped non-list value");
+  }
+  steps = steps.map((s) => s.replace(/^(?:[-*•]|\d+[.)])\s+/, ""));
+  if (steps.length > MAX_STEPS) {
+    steps = steps.slice(0, MAX_STEPS);
+    repairs.push(`steps: cut to ${MAX_STEPS}`);
+  }
+
+  const cautions = Array.isArray(o.cautions) ? o.cautions.map(str).filter(Boolean) : [];
+  if (!Array.isArray(o.cautions)) repairs.push("cautions: missing");
+
+  let confidence = CONFIDENCE.find((c) => c === o.confidence);
+  if (!confidence) {
+    confidence = "medium";
+    repairs.push("confidence: missing or unknown");
+  }
+
+  // Citations: only the ones we provided, in their canonical form (with url).
+  const allowed = new Map(req.sources.map((s) => [key(s), s]));
+  const cited: SourceRef[] = [];
+  const cite = (s: SourceRef) => {
+    if (!cited.some((c) => key(c) === key(s))) cited.push(s);
+    return cited.findIndex((c) => key(c) === key(s));
+  };
+  for (const s of Array.isArray(o.sources) ? o.sources : []) {
+    const i = contextIndex(s, req);
+    const match = allowed.get(i >= 0 ? key(req.context[i]) : key((s && typeof s === "object" ? s : {}) as SourceRef));
+    if (match) cite(match);
+    else repairs.push(`sources: dropped ${JSON.stringify(s)} (not retrieved)`);
+  }
+
+  // Support: each statement linked to the chunk it rests on, which is always among the sources.
+  const claims = (o.support && typeof o.support === "object" ? o.support : {}) as { bottomLine?: unknown; steps?: unknown };
+  const claimedSteps = Array.isArray(claims.steps) ? claims.steps : [];
+  const link = (statement: string, claimed: unknown): SupportLink | null => {
+    const found = supportFor(statement, claimed, req);
+    if (!found) return null;
+    const chunk = req.context[found.index];
+    const source = allowed.get(key(chunk)) ?? { title: chunk.title, section: chunk.section, url: chunk.url };
+    if (claimed !== undefined && !found.claimed) repairs.push(`support: "${statement.slice(0, 40)}" linked to ${chunk.section}`);
+    return { source: cite(source), excerpt: excerpt(chunk.text) };
+  };
+  const support = { bottomLine: link(bottomLine, claims.bottomLine), steps: steps.map((s, i) => link(s, claimedSteps[i])) };
+
+  // Statements no retrieved chunk backs cap how sure the answer may claim to be.
+  if (!support.bottomLine && req.context.length) confidence = "low";
+  else if (support.steps.some((s) => !s) && confidence === "high") confidence = "medium";
+
+  return {
+    answer: {
+      kind: "rag",
+      title: str(o.title) || "חוק ותקנות",
+      bottomLine,
+      steps,
+      cautions,
+      sources: cited.length ? cited : req.sources,
+      followUpQuestion: str(o.followUpQuestion) || undefined,
+      confidence,
+      support,
+    },
+    repairs,
+  };
+}
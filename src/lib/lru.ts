@@ -0,0 +1,45 @@
+/*
+ * A small least-recently-used cache with a time-to-live, kept per server process.
+ * A Map iterates in insertion order, so re-inserting on every hit keeps the oldest
+ * entry first and eviction is just deleting the first key.
+ */
+
+export type Lru<K, V> = {
+  get(key: K): V | undefined;
+  has(key: K): boolean;
+  set(key: K, value: V): void;
+  delete(key: K): void;
+  clear(): void;
+  readonly size: number;
+};
+
+export function createLru<K, V>({ max, ttlMs }: { max: number; ttlMs: number }): Lru<K, V> {
+  const entries = new Map<K, { value: V; expires: number }>();
+
+  const live = (key: K) => {
+    const e = entries.get(key);
+    if (!e) return undefined;
+    if (e.expires <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    entries.delete(key);
+    entries.set(key, e);
+    return e;
+  };
+
+  return {
+    get: (key) => live(key)?.value,
+    has: (key) => live(key) !== undefined,
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expires: Date.now() + ttlMs });
+      while (entries.size > max) entries.delete(entries.keys().next().value as K);
+    },
+    delete: (key) => void entries.delete(key),
+    clear: () => entries.clear(),
+    get size() {
+      return entries.size;
+    },
+  };
+}
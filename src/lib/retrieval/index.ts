@@ -0,0 +1,15 @@
+export {
+  SEARCH_K,
+  expandWithNeighborChunks,
+  filterByScope,
+  filterHits,
+  rerankHits,
+  retrieve,
+  searchHits,
+  type Retrieval,
+  type RetrievalOptions,
+} from "./pipeline";
+export { buildQueryVariants, extractKeyTerms, sanitize, tokenOverlapScore } from "./query";
+export { hitKey, type ChunkRow, type ChunkWindow, type Hit, type RetrievalStore, type SourceRow } from "./store";
+export { supabaseStore } from "./supabaseStore";
+export { memoryStore, type MemoryCorpus } from "./memoryStore";
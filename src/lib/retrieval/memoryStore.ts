@@ -0,0 +1,140 @@
+import type { Embedder } from "../embeddings";
+import type { ChunkRow, Hit, Locator, RetrievalStore, SourceRow } from "./store";
+
+/*
+ * A store over an in-memory corpus, for running the pipeline without a database
+ * (scripts/eval_retrieval.mjs). searchChunks follows search_chunks in
+ * scripts/sql/search_chunks_hybrid.sql: the same terms, weights and cut-offs, with
+ * ts_rank_cd approximated by counting covers and pg_trgm's similarity reimplemented.
+ * Absolute ranks differ from Postgres a little; the order they give is what matters.
+ */
+
+export type MemoryCorpus = {
+  sources: (Pick<SourceRow, "id" | "title"> & Partial<SourceRow>)[];
+  chunks: { source_id: string; chunk_index: number; section?: string | null; text: string; locator?: Locator }[];
+};
+
+const TRGM_THRESHOLD = 0.3; // pg_trgm.similarity_threshold, what `%` compares against
+
+const words = (s: string) => s.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// pg_trgm: each word padded with two spaces in front and one behind, split into trigrams.
+function trigrams(s: string): Set<string> {
+  const out = new Set<string>();
+  for (const w of words(s)) {
+    const padded = `  ${w} `;
+    for (let i = 0; i + 3 <= padded.length; i++) out.add(padded.slice(i, i + 3));
+  }
+  return out;
+}
+
+function similarity(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// websearch_to_tsquery('simple') ANDs the words; ts_rank_cd scores 0.1 per cover of all of them.
+function ftsRank(doc: string[], terms: string[]) {
+  if (!terms.length) return 0;
+  const counts = terms.map((t) => doc.filter((w) => w === t).length);
+  return Math.min(...counts) * 0.1;
+}
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * (b[i] ?? 0), 0);
+
+export function memoryStore(corpus: MemoryCorpus, opts: { embedder?: Embedder | null } = {}): RetrievalStore {
+  const sources = new Map(
+    corpus.sources.map((s) => [
+      String(s.id),
+      { id: String(s.id), title: s.title, url: s.url || "", doc_type: s.doc_type || "", publisher: s.publisher || "" },
+    ])
+  );
+  const chunks = corpus.chunks
+    .filter((c) => sources.has(String(c.source_id)))
+    .map((c) => {
+      const section = c.section || null;
+      return {
+        row: {
+          source_id: String(c.source_id),
+          section,
+          locator: { ...(c.locator || {}), chunk_index: c.chunk_index },
+          text: c.text,
+          chunk_index: c.chunk_index,
+        } satisfies ChunkRow,
+        source: sources.get(String(c.source_id)) as SourceRow,
+        words: words(`${section || ""} ${c.text}`),
+        textTrgm: trigrams(c.text),
+        sectionTrgm: trigrams(section || ""),
+      };
+    });
+
+  const toHit = (c: (typeof chunks)[number], rank: number): Hit => ({
+    source_title: c.source.title,
+    source_url: c.source.url || null,
+    section: c.row.section,
+    locator: c.row.locator,
+    text: c.row.text || "",
+    rank,
+  });
+
+  // Chunk vectors are made on first use, by the same embedder as the question's.
+  let vectors: Promise<number[][]> | null = null;
+  const embedder = opts.embedder;
+
+  return {
+    async searchChunks(q, k) {
+      const raw = q.trim();
+      const terms = words(raw);
+      const qTrgm = trigrams(raw);
+      const needle = raw.toLowerCase();
+      return chunks
+        .map((c) => {
+          const fts = ftsRank(c.words, terms);
+          const simText = similarity(c.textTrgm, qTrgm);
+          const simSection = similarity(c.sectionTrgm, qTrgm);
+          const phrase = !!needle && (c.row.text || "").toLowerCase().includes(needle);
+          const matches = fts > 0 || simText >= TRGM_THRESHOLD || simSection >= TRGM_THRESHOLD || phrase;
+          const rank = 1.6 * fts + 1.1 * simText + 0.9 * simSection + (phrase ? 0.35 : 0);
+          return { c, rank: matches ? rank : 0 };
+        })
+        .filter((s) => s.rank > 0.02)
+        .sort((a, b) => b.rank - a.rank)
+        .slice(0, Math.max(1, k))
+        .map((s) => toHit(s.c, s.rank));
+    },
+
+    async matchChunks(embedding, k, model) {
+      if (!embedder || embedder.model !== model) return [];
+      vectors ??= embedder.embed(chunks.map((c) => c.row.text || ""));
+      const all = await vectors;
+      return chunks
+        .map((c, i) => ({ c, rank: cosine(embedding, all[i]) }))
+        .sort((a, b) => b.rank - a.rank)
+        .slice(0, Math.max(1, k))
+        .map((s) => toHit(s.c, s.rank));
+    },
+
+    async textSearch(terms, limit) {
+      const needles = terms.map((t) => t.toLowerCase());
+      return chunks
+        .filter((c) => needles.some((n) => (c.row.text || "").toLowerCase().includes(n)))
+        .slice(0, limit)
+        .map((c) => toHit(c, 0.5));
+    },
+
+    async sourcesByTitle(titles) {
+      const rows: Record<string, SourceRow> = {};
+      for (const s of sources.values()) if (titles.includes(s.title)) rows[s.title] = s;
+      return rows;
+    },
+
+    async chunkWindows(windows) {
+      return chunks
+        .map((c) => c.row)
+        .filter((r) => windows.some((w) => w.sourceId === r.source_id && r.chunk_index >= w.min && r.chunk_index <= w.max))
+        .sort((a, b) => a.chunk_index - b.chunk_index);
+    },
+  };
+}
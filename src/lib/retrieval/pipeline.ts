@@ -0,0 +1,254 @@
+import pLimit from "p-limit";
+import { normalizeHebrewText } from "../../../lib/normalizeHebrewText";
+import type { Embedder } from "../embeddings";
+import type { ContextBlock } from "../llm/provider";
+import { createLru } from "../lru";
+import { reciprocalRankFusion } from "../rrf";
+import { isJunkSnippet, looksLikePageHeaderOnly } from "../snippets";
+import { inScope, sourceTypeOf, widerScopeFor, type ScopeMode } from "../sourceTypes";
+import type { SourceRef } from "../../types/answer";
+import { buildQueryVariants, extractKeyTerms, tokenOverlapScore } from "./query";
+import { hitKey, type Hit, type RetrievalStore, type SourceRow } from "./store";
+
+/*
+ * The retrieval half of /api/ask, stage by stage: search, scope, filter, rerank,
+ * expand. Each stage is exported so the evaluation runner (scripts/eval_retrieval.mjs)
+ * and the handler run exactly the same code.
+ */
+
+export const SEARCH_K = 16;
+const SEARCH_CONCURRENCY = 4;
+
+// The question's embedding, so a repeated question does not pay for the embedder again.
+const embeddingCache = createLru<string, number[]>({ max: 300, ttlMs: 5 * 60_000 });
+
+function dedupe(hits: Hit[]) {
+  const seen = new Set<string>();
+  return hits.filter((h) => {
+    const key = hitKey(h);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Nearest chunks by embedding; empty when the embedder or the vector search fails.
+async function semanticSearch(store: RetrievalStore, embedder: Embedder, question: string): Promise<Hit[]> {
+  try {
+    const cacheKey = `${embedder.model}:${question}`;
+    let vector = embeddingCache.get(cacheKey);
+    if (!vector) {
+      [vector] = await embedder.embed([question]);
+      embeddingCache.set(cacheKey, vector);
+    }
+    return await store.matchChunks(vector, SEARCH_K, embedder.model);
+  } catch (e) {
+    console.warn(`semantic search failed: ${e instanceof Error ? e.message : e}`);
+    return [];
+  }
+}
+
+/**
+ * Candidates for a question: every variant's lexical hits, deduped, fused with the
+ * semantic hits when an embedder is given; the ILIKE text search when nothing is found.
+ */
+export async function searchHits(
+  store: RetrievalStore,
+  question: string,
+  variants: string[],
+  embedder?: Embedder | null
+): Promise<Hit[]> {
+  // Variants run side by side, a few at a time; results keep variant order for the dedupe.
+  const limit = pLimit(SEARCH_CONCURRENCY);
+  const [lexical, semantic] = await Promise.all([
+    Promise.all(variants.map((qv) => limit(() => store.searchChunks(qv, SEARCH_K)))),
+    embedder ? semanticSearch(store, embedder, question) : Promise.resolve([]),
+  ]);
+  let hits = dedupe(lexical.flat());
+
+  // Fuse lexical and semantic rankings; paraphrased questions are found by the second.
+  if (semantic.length) {
+    const byRank = [...hits].sort((a, b) => (b.rank || 0) - (a.rank || 0));
+    hits = reciprocalRankFusion([byRank, semantic], hitKey).map(({ item, score }) => ({ ...item, fused: score }));
+  }
+
+  // FALLBACK: If no results from search_chunks, try ILIKE text search
+  if (hits.length === 0) {
+    const keyTerms = extractKeyTerms(question);
+    if (keyTerms.length > 0) hits = await store.textSearch(keyTerms.slice(0, 5), 50);
+  }
+  return hits;
+}
+
+/**
+ * Keeps the source types the scope covers; hits from sources without a row are dropped.
+ * When nothing is left, `widerScope` is the narrowest scope that would have kept some.
+ */
+export function filterByScope(hits: Hit[], sourceMeta: Record<string, SourceRow>, scope: ScopeMode) {
+  const known = hits.filter((h) => sourceMeta[h.source_title]);
+  const kept = known.filter((h) => inScope(scope, sourceTypeOf(sourceMeta[h.source_title])));
+  const widerScope = kept.length
+    ? undefined
+    : widerScopeFor(scope, known.map((h) => sourceTypeOf(sourceMeta[h.source_title])));
+  return { hits: kept, widerScope };
+}
+
+const isJunk = (h: Hit, question: string) => {
+  const snippet = normalizeHebrewText(h.text || "").trim();
+  return isJunkSnippet(snippet, question) || looksLikePageHeaderOnly(snippet);
+};
+
+// What the question says about its setting; it decides the filters and the residential boost.
+function questionContext(question: string) {
+  const qNorm = normalizeHebrewText(question).toLowerCase();
+  const medical = /(רפואי|בית\s*חולים|מרפאה|קליניקה|מטופל|אתר\s*רפואי)/i.test(qNorm);
+  const industrial = /(תעשייתי|מפעל|חקלאי|בריכה|אתר\s*בניה|ארעי)/i.test(qNorm);
+  return { medical, industrial };
+}
+
+/** Drops medical-installation hits (unless the question is about one) and junk snippets. */
+export function filterHits(hits: Hit[], question: string): Hit[] {
+  // HARD BLOCK: Remove medical contexts unless user asked for medical
+  if (!questionContext(question).medical) {
+    hits = hits.filter((h) => {
+      const hay = normalizeHebrewText(`${h.source_title || ""} ${h.section || ""} ${h.text || ""}`).toLowerCase();
+      const isMedical = /(אתר\s*רפואי|אתרים\s*רפואיים|מטופל|חדר\s*ניתוח|ecg|eeg|emg|ect|פסיכיאטריה|טיפול\s*נמרץ|מכשיר\s*רפואי)/i.test(hay);
+      return !isMedical;
+    });
+  }
+
+  // FILTER JUNK SNIPPETS: Remove page references and meaningless snippets
+  return hits.filter((h) => !isJunk(h, question));
+}
+
+/** Best first: the Electricity Law, then residential context, token overlap, fused or search rank. */
+export function rerankHits(hits: Hit[], question: string): Hit[] {
+  // CONTEXT PREFERENCE: If not specified, prefer residential context (90% of questions)
+  const { medical, industrial } = questionContext(question);
+  const assumeResidential = !medical && !industrial;
+
+  const overlap = new Map(hits.map((h) => [h, tokenOverlapScore(question, h.text || "")])); // once per hit, not per comparison
+  return [...hits].sort((a, b) => {
+    // PRIORITY 1: Prefer חוק החשמל (Electricity Law) over all other sources
+    const aIsLaw = /חוק[\s-]?החשמל/i.test(a.source_title || "");
+    const bIsLaw = /חוק[\s-]?החשמל/i.test(b.source_title || "");
+    if (aIsLaw && !bIsLaw) return -1; // a comes first
+    if (!aIsLaw && bIsLaw) return 1;  // b comes first
+
+    // PRIORITY 2: context preference (residential boost)
+    if (assumeResidential) {
+      const ha = normalizeHebrewText(`${a.source_title} ${a.section} ${a.text}`).toLowerCase();
+      const hb = normalizeHebrewText(`${b.source_title} ${b.section} ${b.text}`).toLowerCase();
+      const ba = /(דירתי|דירה|מגורים|בניין|לוח\s*דירתי|מיתקן\s*דירתי)/i.test(ha) ? 1 : 0;
+      const bb = /(דירתי|דירה|מגורים|בניין|לוח\s*דירתי|מיתקן\s*דירתי)/i.test(hb) ? 1 : 0;
+      if (ba !== bb) return bb - ba; // Prefer residential
+    }
+
+    // PRIORITY 3: token overlap with question
+    const oa = overlap.get(a) ?? 0;
+    const ob = overlap.get(b) ?? 0;
+    if (oa !== ob) return ob - oa;
+
+    // PRIORITY 4: fused rank when semantic results were merged, else original rank
+    if (a.fused !== undefined && b.fused !== undefined && a.fused !== b.fused) return b.fused - a.fused;
+    return (b.rank || 0) - (a.rank || 0);
+  });
+}
+
+/** Each hit with its neighbouring chunks (windowSize 1 => prev+current+next), in chunk order. */
+export async function expandWithNeighborChunks(
+  store: RetrievalStore,
+  top: Hit[],
+  sources: Record<string, SourceRow>,
+  windowSize = 1
+): Promise<Hit[]> {
+  const expanded: Hit[] = [];
+  const seenKeys = new Set<string>();
+  const keep = (h: Hit) => {
+    const key = hitKey(h);
+    if (seenKeys.has(key)) return;
+    seenKeys.add(key);
+    expanded.push(h);
+  };
+
+  // The window around each hit that has a chunk index and a known source.
+  const windows = top.map((h) => {
+    const idx = Number(h.locator?.chunk_index ?? h.locator?.chunk ?? null);
+    const src = sources[h.source_title];
+    if (!src?.id || !Number.isFinite(idx) || idx < 0) return null;
+    return { src, min: Math.max(0, idx - windowSize), max: idx + windowSize };
+  });
+
+  const rows = await store.chunkWindows(
+    windows.filter((w) => w !== null).map((w) => ({ sourceId: w.src.id, min: w.min, max: w.max }))
+  );
+
+  top.forEach((h, i) => {
+    const w = windows[i];
+    const neigh = w
+      ? rows.filter((n) => String(n.source_id) === String(w.src.id) && n.chunk_index >= w.min && n.chunk_index <= w.max)
+      : [];
+    if (!w || !neigh.length) return keep(h);
+    for (const n of neigh) {
+      keep({
+        source_title: w.src.title,
+        source_url: w.src.url,
+        section: n.section || h.section || `Chunk ${n.chunk_index}`,
+        locator: { ...(n.locator || {}), chunk_index: n.chunk_index },
+        text: n.text || "",
+        rank: h.rank, // Keep rank of primary hit
+      });
+    }
+  });
+  return expanded;
+}
+
+export type RetrievalOptions = {
+  question: string; // already sanitized
+  scope: ScopeMode;
+  embedder?: Embedder | null;
+  primary?: number; // ranked hits expanded into the context
+  maxContext?: number;
+};
+
+export type Retrieval = {
+  variants: string[];
+  ranked: Hit[]; // in scope and filtered, best first
+  top: Hit[]; // the primary hits with their neighbours: what the answer is written from
+  context: ContextBlock[];
+  sources: SourceRef[];
+  widerScope?: ScopeMode; // set when nothing was in scope but a wider scope has hits
+};
+
+/** The whole pipeline, from question to the context handed to the answer providers. */
+export async function retrieve(store: RetrievalStore, opts: RetrievalOptions): Promise<Retrieval> {
+  const { question, scope, embedder, primary = 2, maxContext = 5 } = opts;
+  const variants = buildQueryVariants(question);
+  const hits = await searchHits(store, question, variants, embedder);
+
+  // Fetch meta for filtering
+  const titles = [...new Set(hits.map((h) => h.source_title))];
+  const sourceMeta = titles.length ? await store.sourcesByTitle(titles) : {};
+  const scoped = filterByScope(hits, sourceMeta, scope);
+  const ranked = rerankHits(filterHits(scoped.hits, question), question);
+
+  // Select the top primary hits, then expand with neighbor chunks for context;
+  // the neighbours go through the junk filter too.
+  const expanded = await expandWithNeighborChunks(store, ranked.slice(0, primary), sourceMeta, 1);
+  const top = dedupe(expanded.filter((h) => !isJunk(h, question))).slice(0, maxContext);
+
+  const context = top.map((h) => ({
+    title: h.source_title,
+    section: h.section || "ללא סעיף",
+    text: normalizeHebrewText(h.text || "").slice(0, 1400),
+    url: h.source_url || sourceMeta[h.source_title]?.url || undefined,
+    rank: h.rank,
+  }));
+  const sources = top.map((h) => ({
+    title: h.source_title,
+    section: h.section || "ללא סעיף",
+    url: h.source_url || sourceMeta[h.source_title]?.url || undefined,
+  }));
+
+  return { variants, ranked, top, context, sources, widerScope: scoped.widerScope };
+}
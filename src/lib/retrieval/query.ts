@@ -0,0 +1,80 @@
+import { normalizeHebrewText } from "../../../lib/normalizeHebrewText";
+import { expandQuery, normalizeQuery } from "../lexicon";
+
+export function sanitize(input: string) {
+  let q = normalizeHebrewText(input || "");
+  q = q.replace(/["'`)\]}»"]+$/g, "").trim();
+  q = q.replace(/[!?.,;:]{2,}/g, (m) => m.slice(0, 1));
+  return q;
+}
+
+// Extract key terms from query (max 20 chars each)
+export function extractKeyTerms(q: string): string[] {
+  const t = sanitize(q);
+  const expansion = expandQuery(t);
+  const terms: string[] = [];
+  
+  // Query words, prefix-stripped ("בהארקה" -> "הארקה"), lexicon terms kept whole
+  terms.push(...expansion.matched.map((m) => m.term));
+  terms.push(...expansion.tokens.filter((w) => /[\u0590-\u05ff]{2,}/.test(w)));
+  
+  // Extract technical terms
+  const techTerms = t.match(/\b(zs|ra|tt|tn|rcd|iΔn|פחת|מאמ"ת|נתיך|אוהם|ω|ohm)\b/gi) || [];
+  terms.push(...techTerms.map(x => x.toLowerCase()));
+  
+  // Extract numbers with units
+  const numUnits = t.match(/\d+\s*(אמפר|אום|ω|ma|v|kw|kva)/gi) || [];
+  terms.push(...numUnits);
+  
+  // Synonyms and related terms from the lexicon (e.g. bathroom zones, TT/TN)
+  terms.push(...expansion.synonyms, ...expansion.related);
+  
+  // Remove duplicates and keep only short terms (max 20 chars)
+  return Array.from(new Set(terms))
+    .filter(x => x.length > 0 && x.length <= 20)
+    .slice(0, 8);
+}
+
+export function buildQueryVariants(q: string): string[] {
+  const base = sanitize(q);
+  const expansion = expandQuery(base);
+  const normalized = expansion.tokens.join(" ");
+  const variants = new Set<string>();
+  
+  // If query is long (>40 chars), break into key terms
+  if (base.length > 40) {
+    const keyTerms = extractKeyTerms(base);
+    // Add individual terms
+    keyTerms.forEach(term => variants.add(term));
+    // Add 2-3 word combinations
+    for (let i = 0; i < Math.min(keyTerms.length, 3); i++) {
+      for (let j = i + 1; j < Math.min(keyTerms.length, i + 3); j++) {
+        variants.add(`${keyTerms[i]} ${keyTerms[j]}`);
+      }
+    }
+  } else {
+    // Short query: use as-is + variants
+    variants.add(base);
+    if (normalized) variants.add(normalized);
+    variants.add(`${base} תקנות החשמל`);
+    variants.add(`${base} חוק החשמל`);
+  }
+  
+  // Lexicon expansion (keep short): the query in other words, then related terms
+  expansion.alternatives.forEach((v) => variants.add(v));
+  expansion.related.forEach((v) => variants.add(v));
+  
+  // Filter: keep only queries <= 30 chars (safe for search_chunks)
+  return Array.from(variants)
+    .filter(v => v.length > 0 && v.length <= 30)
+    .slice(0, 10);
+}
+
+export function tokenOverlapScore(query: string, candidate: string): number {
+  const qTokens = normalizeQuery(sanitize(query));
+  if (!qTokens.length) return 0;
+  const cSet = new Set(normalizeQuery(sanitize(candidate)));
+  let matched = 0;
+  for (const t of qTokens) if (cSet.has(t)) matched++;
+  return matched / qTokens.length;
+}
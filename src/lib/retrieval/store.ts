@@ -0,0 +1,44 @@
+/*
+ * What the retrieval pipeline needs from storage. The Supabase store answers from the
+ * RPCs and tables; the memory store answers from a fixture corpus, so the same pipeline
+ * can be evaluated offline.
+ */
+
+export type Locator = { chunk_index?: number; chunk?: number; page?: number; [key: string]: unknown } | null;
+
+export type Hit = {
+  source_title: string;
+  source_url: string | null;
+  section: string | null;
+  locator: Locator;
+  text: string;
+  rank: number;
+  fused?: number; // reciprocal-rank fusion score, set when semantic results were merged in
+};
+
+export type SourceRow = { id: string; title: string; url: string; doc_type: string; publisher: string };
+
+export type ChunkRow = {
+  source_id: string;
+  section: string | null;
+  locator: Locator;
+  text: string | null;
+  chunk_index: number;
+};
+
+export type ChunkWindow = { sourceId: string; min: number; max: number };
+
+export type RetrievalStore = {
+  /** Lexical search (search_chunks): the best `k` chunks for one query variant. */
+  searchChunks(q: string, k: number): Promise<Hit[]>;
+  /** Nearest chunks to an embedding made by `model` (match_chunks). */
+  matchChunks(embedding: number[], k: number, model: string): Promise<Hit[]>;
+  /** Chunks whose text contains any of the terms; the fallback when search finds nothing. */
+  textSearch(terms: string[], limit: number): Promise<Hit[]>;
+  /** Source rows by title; titles without a row are left out. */
+  sourcesByTitle(titles: string[]): Promise<Record<string, SourceRow>>;
+  /** The chunks of each window, by chunk index. */
+  chunkWindows(windows: ChunkWindow[]): Promise<ChunkRow[]>;
+};
+
+export const hitKey = (h: Hit) => `${h.source_title}||${h.section || ""}||${(h.text || "").slice(0, 120)}`;
@@ -0,0 +1,105 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createLru } from "../lru";
+import type { ChunkRow, Hit, RetrievalStore, SourceRow } from "./store";
+
+// Per-process caches. Source rows only change on ingest; a query variant is often
+// repeated within minutes (follow-ups, retries on flaky mobile connections).
+// A title without a row is remembered briefly, so a source ingested meanwhile shows up soon.
+const sourceCache = createLru<string, SourceRow>({ max: 1000, ttlMs: 10 * 60_000 });
+const missingSources = createLru<string, true>({ max: 1000, ttlMs: 30_000 });
+const searchCache = createLru<string, Hit[]>({ max: 300, ttlMs: 5 * 60_000 });
+
+/**
+ * The store over the Supabase tables and RPCs (scripts/sql). A failed lookup is logged
+ * and comes back empty, so one bad variant or a missing RPC does not fail the question.
+ */
+export function supabaseStore(supabase: SupabaseClient): RetrievalStore {
+  return {
+    async searchChunks(q, k) {
+      const cacheKey = `${k}:${q}`;
+      const cached = searchCache.get(cacheKey);
+      if (cached) return cached;
+      const { data, error } = await supabase.rpc("search_chunks", { q, k });
+      if (error) {
+        console.warn(`search_chunks failed for "${q}": ${error.message}`);
+        return [];
+      }
+      const hits = Array.isArray(data) ? (data as Hit[]) : [];
+      searchCache.set(cacheKey, hits);
+      return hits;
+    },
+
+    async matchChunks(embedding, k, model) {
+      const { data, error } = await supabase.rpc("match_chunks", { query_embedding: embedding, k, match_model: model });
+      if (error) {
+        console.warn(`match_chunks failed: ${error.message}`);
+        return [];
+      }
+      return Array.isArray(data) ? (data as Hit[]) : [];
+    },
+
+    async textSearch(terms, limit) {
+      const { data, error } = await supabase
+        .from("chunks")
+        .select("source_id, section, locator, text")
+        .or(terms.map((term) => `text.ilike.%${term}%`).join(","))
+        .limit(limit);
+      if (error || !data?.length) return [];
+
+      const sourceIds = [...new Set(data.map((c) => c.source_id))];
+      const { data: sourcesData } = await supabase.from("sources").select("id, title, url").in("id", sourceIds);
+      const sourceMap = new Map((sourcesData || []).map((s) => [s.id, s]));
+
+      return data.map((c) => {
+        const source = sourceMap.get(c.source_id);
+        return {
+          source_title: source?.title || "Unknown",
+          source_url: source?.url || null,
+          section: c.section || null,
+          locator: c.locator || null,
+          text: c.text || "",
+          rank: 0.5, // Lower rank for ILIKE results
+        };
+      });
+    },
+
+    // One query for whatever the cache does not have.
+    async sourcesByTitle(titles) {
+      const missing = titles.filter((t) => !sourceCache.has(t) && !missingSources.has(t));
+      if (missing.length) {
+        const { data, error } = await supabase.from("sources").select("id,title,url,doc_type,publisher").in("title", missing);
+        if (error) console.warn(`sources lookup failed: ${error.message}`);
+        else {
+          for (const s of data || []) {
+            sourceCache.set(s.title, {
+              id: s.id,
+              title: s.title,
+              url: s.url || "",
+              doc_type: s.doc_type || "",
+              publisher: s.publisher || "",
+            });
+          }
+          for (const t of missing) if (!sourceCache.has(t)) missingSources.set(t, true);
+        }
+      }
+      const rows: Record<string, SourceRow> = {};
+      for (const t of titles) {
+        const row = sourceCache.get(t);
+        if (row) rows[t] = row;
+      }
+      return rows;
+    },
+
+    // Every window in one query.
+    async chunkWindows(windows) {
+      if (!windows.length) return [];
+      const { data, error } = await supabase
+        .from("chunks")
+        .select("source_id, section, locator, text, chunk_index")
+        .or(windows.map((w) => `and(source_id.eq.${w.sourceId},chunk_index.gte.${w.min},chunk_index.lte.${w.max})`).join(","))
+        .order("chunk_index", { ascending: true });
+      if (error) console.warn(`neighbour chunks lookup failed: ${error.message}`);
+      return Array.isArray(data) ? (data as ChunkRow[]) : [];
+    },
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Reciprocal-rank fusion: each list gives an item 1 / (k + position), and the sums
+ * decide the fused order. Only positions count, so lists whose scores are on
+ * different scales (FTS rank, cosine similarity) combine without calibration.
+ * Items are identified by `key`; the first list an item appears in supplies it.
+ */
+export function reciprocalRankFusion<T>(lists: T[][], key: (item: T) => string, k = 60): { item: T; score: number }[] {
+  const fused = new Map<string, { item: T; score: number; first: number }>();
+  let order = 0;
+  for (const list of lists) {
+    const seen = new Set<string>();
+    list.forEach((item, position) => {
+      const id = key(item);
+      if (seen.has(id)) return; // a repeat within one list does not count twice
+      seen.add(id);
+      const entry = fused.get(id) ?? { item, score: 0, first: order++ };
+      entry.score += 1 / (k + position + 1);
+      fused.set(id, entry);
+    });
+  }
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score || a.first - b.first)
+    .map(({ item, score }) => ({ item, score }));
+}
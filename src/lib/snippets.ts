@@ -0,0 +1,43 @@
+import { normalizeHebrewText } from "../../lib/normalizeHebrewText";
+
+// Filter out junk snippets (page references, medical contexts, etc.)
+export function isJunkSnippet(text: string, question: string): boolean {
+  const s = normalizeHebrewText(text || "").trim();
+  if (!s || s.length < 10) return true;
+  
+  // Page references like "ר' ... עמ' 716" or "עמ' 716"
+  if (/^ר[’']?\s*[^\u0590-\u05ff]*עמ[’']?\s*\d+/.test(s)) return true;
+  if (/^עמ[’']?\s*\d+/.test(s) && s.length < 50) return true;
+  
+  // Medical contexts (unless question asks for medical)
+  const qNorm = normalizeHebrewText(question).toLowerCase();
+  const userAskedMedical = /(רפואי|בית\s*חולים|מרפאה|קליניקה|מטופל|אתר\s*רפואי)/i.test(qNorm);
+  if (!userAskedMedical) {
+    if (/פסיכיאטריה|EEG|EMG|ECT|אתר\s*רפואי|מטופל|חדר\s*ניתוח/i.test(s)) return true;
+  }
+  
+  // Just symbols/numbers without meaningful Hebrew words
+  const hebrewWords = s.match(/[\u0590-\u05ff]{2,}/g) || [];
+  if (hebrewWords.length < 2 && s.length > 20) return true;
+  
+  // Lines starting with "++" or similar markers
+  if (/^\+{2,}/.test(s)) return true;
+  
+  // Just a list of standards/codes without explanation
+  if (/^(din|iec|iso|en|bs|ansi|ul|vde|ת"י)\s*[\d\s\/,]+$/i.test(s)) return true;
+  
+  return false;
+}
+
+// Check if text looks like page header/metadata only
+export function looksLikePageHeaderOnly(text: string): boolean {
+  const s = normalizeHebrewText(text || "").trim();
+  if (!s) return true;
+  // Headers/references without content
+  if (/ר\s*[’']?\s*ב/i.test(s) && /עמ[’']?\s*\d+/.test(s) && s.length < 80) return true;
+  // Many + signs or table without words
+  if (/^\+{2,}/.test(s.trim())) return true;
+  // Just page numbers and metadata
+  if (/^רשומות|^עמ[’']?\s*\d+/.test(s) && s.length < 100) return true;
+  return false;
+}
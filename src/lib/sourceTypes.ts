@@ -0,0 +1,58 @@
+/*
+ * The source taxonomy behind the scope selector. Ingest records a free-form doc_type
+ * (law_pdf, regulation_index, utility_guideline, ...) and a publisher for every source;
+ * together they map to one SourceType, and each scope is a set of types.
+ */
+
+export const SOURCE_TYPES = ["law", "regulation", "safety", "guidance", "utility", "catalog", "index"] as const;
+export type SourceType = (typeof SOURCE_TYPES)[number];
+
+export const SOURCE_TYPE_LABEL: Record<SourceType, string> = {
+  law: "חוק",
+  regulation: "תקנות",
+  safety: "תקנות בטיחות",
+  guidance: "הנחיות ופירושים",
+  utility: "המעגל (חברת החשמל)",
+  catalog: "קטלוגים",
+  index: "דפי אינדקס",
+};
+
+// Narrowest first: a scope suggested as wider is always a later one.
+export const SCOPES = ["law_only", "law_plus_utility", "all"] as const;
+export type ScopeMode = (typeof SCOPES)[number];
+
+export const SCOPE_TYPES: Record<ScopeMode, readonly SourceType[]> = {
+  law_only: ["law", "regulation", "safety", "guidance"],
+  law_plus_utility: ["law", "regulation", "safety", "guidance", "utility"],
+  all: SOURCE_TYPES,
+};
+
+export const SCOPE_LABEL: Record<ScopeMode, string> = {
+  law_only: "חוק/תקנות בלבד",
+  law_plus_utility: "חוק + המעגל",
+  all: "כל המקורות",
+};
+
+export function isScopeMode(v: unknown): v is ScopeMode {
+  return SCOPES.some((s) => s === v);
+}
+
+/** The type of a source row; null when its doc_type is missing or not one we know. */
+export function sourceTypeOf(meta: { doc_type?: string | null; publisher?: string | null }): SourceType | null {
+  const dt = (meta.doc_type || "").trim().toLowerCase();
+  const head = dt.split("_")[0]; // "safety_regulation_pdf" -> "safety"; bare "law" works too
+  if (/_index$|^landing$/.test(dt)) return "index";
+  if (head === "utility" || (meta.publisher || "").toLowerCase() === "iec-hamaagal") return "utility";
+  if (head === "guideline") return "guidance";
+  return SOURCE_TYPES.find((t) => t === head) ?? null;
+}
+
+// Untyped sources only show up when the user asked for everything.
+export function inScope(scope: ScopeMode, type: SourceType | null) {
+  return type ? SCOPE_TYPES[scope].includes(type) : scope === "all";
+}
+
+/** The narrowest scope wider than `scope` that would admit any of `types`, if there is one. */
+export function widerScopeFor(scope: ScopeMode, types: (SourceType | null)[]): ScopeMode | undefined {
+  return SCOPES.slice(SCOPES.indexOf(scope) + 1).find((s) => types.some((t) => inScope(s, t)));
+}
@@ -2,30 +2,219 @@ export type Route =
   | "CALC_POWER_CURRENT"
   | "CALC_VDROP"
   | "CALC_SIMPLE_CABLE_HINT"
+  | "CALC_LOOP_FAULT"
+  | "CALC_SHORT_CIRCUIT"
+  | "CALC_LOAD_SCHEDULE"
+  | "CALC_MOTOR"
+  | "CALC_PF_CORRECTION"
+  | "CALC_EARTH_ELECTRODE"
+  | "CALC_EV_CHARGER"
   | "FLOW_RCD_TRIP"
   | "FLOW_NO_POWER"
+  | "FLOW_MCB_TRIP"
+  | "FLOW_OVERHEAT"
+  | "FLOW_EARTH_FAULT"
+  | "FLOW_PHASE_ID"
   | "RAG_CODE"
   | "RAG_GENERAL";
 
-export function triage(q: string, modeHint?: string): Route {
-  const s = (q || "").toLowerCase();
+export type RouteScore = {
+  route: Route;
+  score: number;
+  confidence: number; // share of the total score, 0..1
+  evidence: string[]; // labels of the features that fired
+};
+
+export type TriageResult = {
+  route: Route;
+  confidence: number;
+  ranked: RouteScore[];
+  ambiguous: boolean; // top two routes are too close to pick one
+};
+
+type Feature = { route: Route; re: RegExp; weight: number; label: string };
+
+const FAULT_VERBS = /נפל|נופל|קופץ|קפץ|מפיל|יורד|תקלה/;
+// Asking what the rules require; it outweighs a bare component name ("מתי מותר ... פחת").
+const REQUIREMENT_WORDS = /מותר|אסור|חובה|נדרש|מי מוסמך|רישיון|היתר|טופס/;
+
+const FEATURES: Feature[] = [
+  { route: "CALC_VDROP", re: /נפילת ה?מתח|מפל ה?מתח/, weight: 3, label: "נפילת מתח" },
+  { route: "CALC_VDROP", re: /voltage drop|vd%/, weight: 3, label: "voltage drop" },
+  { route: "CALC_VDROP", re: /אחוז נפילה/, weight: 2, label: "אחוז נפילה" },
+  { route: "CALC_VDROP", re: /\d+\s*(מטר|m(?![a-z²2])|ק"מ|km)/, weight: 0.8, label: "אורך" },
+
+  { route: "CALC_POWER_CURRENT", re: /\d+(\.\d+)?\s*(kw(?!h)|kva|hp|קוו?"?ט|קוו?"?א|כ"ס)/, weight: 1.2, label: "הספק עם יחידות" },
+  { route: "CALC_POWER_CURRENT", re: /kw|kva|הספק/, weight: 0.6, label: "הספק" },
+  { route: "CALC_POWER_CURRENT", re: /כמה זרם|איזה זרם|חישוב זרם|לחשב זרם|זרם של|זרם מנוע|current/, weight: 2, label: "שאלת זרם" },
+  { route: "CALC_POWER_CURRENT", re: /תלת|חד[\s-]?פאז/, weight: 0.5, label: "פאזה" },
+  { route: "CALC_POWER_CURRENT", re: /cos/, weight: 1, label: "cosφ" },
+  { route: "CALC_POWER_CURRENT", re: FAULT_VERBS, weight: -1.5, label: "תיאור תקלה" },
+
+  { route: "CALC_SIMPLE_CABLE_HINT", re: /חתך|איזה כבל|עובי כבל|גודל כבל/, weight: 2, label: "חתך כבל" },
+  { route: "CALC_SIMPLE_CABLE_HINT", re: /כבל/, weight: 0.8, label: "כבל" },
+  { route: "CALC_SIMPLE_CABLE_HINT", re: /ממ"ר|mm2|mm²/, weight: 0.8, label: "ממ״ר" },
+  { route: "CALC_SIMPLE_CABLE_HINT", re: /זרם מותר|העמסה מותרת|ampacity/, weight: 2, label: "זרם מותר" },
+  { route: "CALC_SIMPLE_CABLE_HINT", re: /\d+\s*(a(?![a-z])|אמפר)/, weight: 0.4, label: "זרם באמפר" },
+
+  { route: "CALC_LOOP_FAULT", re: /zs|עכבת לולאה|עכבת לולאת|לולאת תקלה/, weight: 3, label: "Zs" },
+  { route: "CALC_LOOP_FAULT", re: /\bra\b|התנגדות הארקה|התנגדות פיזור|אלקטרודה/, weight: 2.5, label: "RA" },
+  { route: "CALC_LOOP_FAULT", re: /אוהם|ω|ohm/, weight: 1, label: "אוהם" },
+  { route: "CALC_LOOP_FAULT", re: /מדדתי|נמדד|מדידה/, weight: 0.8, label: "מדידה" },
+
+  {
+    route: "CALC_EV_CHARGER",
+    re: /עמד(ת|ות) טעינה|מטען (ל)?רכב|רכב חשמלי|טעינת רכב|וולבוקס|wallbox|ev charg|\bevse\b|\bev\b/,
+    weight: 3.5,
+    label: "טעינת רכב",
+  },
+
+  {
+    route: "CALC_EARTH_ELECTRODE",
+    re: /התנגדות סגולית|אוהם.?מטר|ω·?m\b|ohm.?m\b|soil resistivity|מוט(ות)? (ה)?הארקה|פס (ה)?הארקה|פלטת (ה)?הארקה|כמה מוטות|מוטות במקביל|earth rod|ground rod/,
+    weight: 3.5,
+    label: "תכנון אלקטרודה",
+  },
+  { route: "CALC_EARTH_ELECTRODE", re: /תכנון הארקה|אלקטרודת הארקה|להשיג התנגדות/, weight: 1.5, label: "אלקטרודת הארקה" },
+
+  { route: "CALC_SHORT_CIRCUIT", re: /זרם (ה)?קצר|קצר צפוי|pscc|ik[13]|כושר (ה)?ניתוק|icu|icn|\d\s*ka\b/, weight: 3.5, label: "זרם קצר" },
+  { route: "CALC_SHORT_CIRCUIT", re: /שנאי|uk%|i²t|i2t/, weight: 1, label: "שנאי / I²t" },
+
+  {
+    route: "CALC_LOAD_SCHEDULE",
+    re: /טבלת עומסים|לוח עומסים|חלוקת עומסים|איזון (ה)?(פאזות|עומסים)|מקדם ביקוש|בו.?זמניות|load schedule|diversity/,
+    weight: 3,
+    label: "טבלת עומסים",
+  },
+
+  {
+    route: "CALC_MOTOR",
+    re: /התנעה|מתנע|כוכב.?משולש|star.?delta|soft.?start|ממיר תדר|vfd|\bdol\b|ממסר (עומס|טרמי)|overload relay/,
+    weight: 3,
+    label: "התנעת מנוע",
+  },
+  { route: "CALC_MOTOR", re: /מנוע|motor/, weight: 1, label: "מנוע" },
+
+  {
+    route: "CALC_PF_CORRECTION",
+    re: /kvar|שיפור (ה)?מקדם|תיקון (ה)?מקדם|קיזוז (ה)?(הספק )?ריאקטיבי|סוללת קבלים|קבלים|power factor correction|capacitor bank/,
+    weight: 3,
+    label: "קיזוז ריאקטיבי",
+  },
+  { route: "CALC_PF_CORRECTION", re: /מקדם הספק נמוך|קנס|הספק ריאקטיבי|אנרגיה ריאקטיבית/, weight: 1.5, label: "מקדם הספק" },
+
+  { route: "FLOW_RCD_TRIP", re: /פחת|rcd|ממסר(?! (עומס|טרמי))|fid/, weight: 1.5, label: "פחת" },
+  {
+    route: "FLOW_RCD_TRIP",
+    re: /(פחת|rcd|ממסר).*(נופל|נפל|קופץ|קפץ|מפיל|יורד)|(נופל|נפל|קופץ|קפץ|מפיל|יורד).*(פחת|rcd|ממסר)/,
+    weight: 2.5,
+    label: "פחת נופל",
+  },
+  { route: "FLOW_RCD_TRIP", re: REQUIREMENT_WORDS, weight: -1.5, label: "שאלת דרישה" },
+
+  { route: "FLOW_NO_POWER", re: /אין חשמל|אין מתח|לא מגיע מתח|הפסקת חשמל|נפל החשמל/, weight: 3, label: "אין מתח" },
+  { route: "FLOW_NO_POWER", re: /(מא"ז|מאמ"ת|מפסק).*(קפץ|נפל|קופץ)/, weight: 1, label: "מפסק קפץ" },
+
+  {
+    route: "FLOW_MCB_TRIP",
+    re: /(מא"?ז|מאמ"?ת|מפסק|אוטומט|mcb|breaker).*(קופץ|קפץ|קופצים|נופל|נפל|יורד)|(קופץ|קפץ|קופצים|מקפיץ|מפיל).*(מא"?ז|מאמ"?ת|מפסק|אוטומט|mcb|breaker)/,
+    weight: 2.5,
+    label: "מפסק קופץ",
+  },
+  { route: "FLOW_MCB_TRIP", re: /קצר(?!ה)|short circuit/, weight: 2, label: "קצר" },
+
+  { route: "FLOW_OVERHEAT", re: /מתחמם|מתחממים|התחמם|התחממות|חם מדי|נמס|ריח שרוף|ריח של שריפה|השחיר|overheat/, weight: 2.5, label: "התחממות" },
+  { route: "FLOW_OVERHEAT", re: /עומס יתר|overload/, weight: 1.5, label: "עומס יתר" },
 
-  if (modeHint === "calc") {
-    if (/נפילת מתח|voltage drop|vd%|אחוז נפילה/.test(s)) return "CALC_VDROP";
-    if (/kw|kva|הספק|תלת|חד|cos/.test(s)) return "CALC_POWER_CURRENT";
-    if (/כבל|חתך|mm2|mm²|זרם מותר/.test(s)) return "CALC_SIMPLE_CABLE_HINT";
+  { route: "FLOW_EARTH_FAULT", re: /מכה חשמל|קיבלתי מכה|עקצוץ|מעקצץ|חשמל בגוף|מתח על (ה)?(גוף|ברז|מכונה|דוד)|shock/, weight: 3, label: "מגע חשמלי" },
+  { route: "FLOW_EARTH_FAULT", re: /תקלת הארקה|אין הארקה|בלי הארקה|ללא הארקה|לא מוארק|earth fault/, weight: 2.5, label: "תקלת הארקה" },
+
+  { route: "FLOW_PHASE_ID", re: /זיהוי פאז|לזהות פאז|איזו פאזה|סדר פאזות|סדר מופעים|רוטציה|phase rotation|מסתובבת? הפוך|כיוון סיבוב|חסרה פאזה|חוסר פאזה/, weight: 3, label: "זיהוי פאזה" },
+
+  { route: "RAG_CODE", re: /תקן|תקנות|תקנה|חוק|ת"י|israel standard|סעיף/, weight: 2, label: "תקנות" },
+  { route: "RAG_CODE", re: REQUIREMENT_WORDS, weight: 1.2, label: "שאלת דרישה" },
+
+  { route: "RAG_GENERAL", re: /מה זה|מה ההבדל|הסבר|למה|איך עובד/, weight: 0.8, label: "שאלה כללית" },
+];
+
+// Every question can fall back to general retrieval.
+const RAG_GENERAL_BASE = 0.6;
+
+// Extra weight for routes in the family the user picked in the UI.
+const MODE_BONUS = 1.5;
+const MODE_FAMILY: Record<string, (r: Route) => boolean> = {
+  calc: (r) => r.startsWith("CALC_"),
+  flow: (r) => r.startsWith("FLOW_"),
+  rag: (r) => r.startsWith("RAG_"),
+};
+
+// Runner-up within this share of the winner counts as a tie.
+const AMBIGUITY_RATIO = 0.8;
+// Scores are rounded to cents, the product with the ratio is not (3.5 * 0.8 > 2.8).
+const SCORE_EPSILON = 1e-9;
+
+/** Whether a runner-up scores close enough to the winner to count as a tie. */
+export function isCloseScore(score: number, topScore: number) {
+  return score >= topScore * AMBIGUITY_RATIO - SCORE_EPSILON;
+}
+
+function prep(q: string) {
+  return (q || "").toLowerCase().replace(/[״“”]/g, '"');
+}
+
+export function classify(q: string, modeHint?: string): TriageResult {
+  const s = prep(q);
+  const scores = new Map<Route, { score: number; evidence: string[] }>();
+  const bump = (route: Route, w: number, label: string) => {
+    const cur = scores.get(route) || { score: 0, evidence: [] };
+    cur.score += w;
+    cur.evidence.push(label);
+    scores.set(route, cur);
+  };
+
+  bump("RAG_GENERAL", RAG_GENERAL_BASE, "ברירת מחדל");
+  for (const f of FEATURES) {
+    if (f.re.test(s)) bump(f.route, f.weight, f.label);
   }
 
-  if (modeHint === "flow") {
-    if (/פחת|rcd|fid|ממסר/.test(s)) return "FLOW_RCD_TRIP";
-    if (/אין חשמל|אין מתח|לא מגיע מתח|נפל/.test(s)) return "FLOW_NO_POWER";
+  const inFamily = modeHint ? MODE_FAMILY[modeHint] : undefined;
+  if (inFamily) {
+    for (const route of Array.from(scores.keys())) {
+      if (inFamily(route) && (scores.get(route)?.score ?? 0) > 0) bump(route, MODE_BONUS, `מצב ${modeHint}`);
+    }
+    // An explicit RAG request always stays within RAG.
+    if (modeHint === "rag") {
+      for (const route of Array.from(scores.keys())) {
+        if (!inFamily(route)) scores.delete(route);
+      }
+    }
   }
 
-  if (/נפילת מתח|voltage drop|vd%|אחוז נפילה/.test(s)) return "CALC_VDROP";
-  if (/kw|kva|הספק|תלת|חד|cos/.test(s)) return "CALC_POWER_CURRENT";
-  if (/פחת|rcd|fid|ממסר/.test(s)) return "FLOW_RCD_TRIP";
-  if (/אין חשמל|אין מתח|לא מגיע מתח|נפל/.test(s)) return "FLOW_NO_POWER";
-  if (/תקן|תקנות|חוק|ת\"י|israel standard/.test(s)) return "RAG_CODE";
+  const positive = Array.from(scores.entries()).filter(([, v]) => v.score > 0);
+  const total = positive.reduce((sum, [, v]) => sum + v.score, 0);
+  const ranked: RouteScore[] = positive
+    .map(([route, v]) => ({
+      route,
+      score: round(v.score),
+      confidence: round(v.score / total),
+      evidence: v.evidence,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const [top, second] = ranked;
+  const ambiguous =
+    !!second &&
+    isCloseScore(second.score, top.score) &&
+    !(top.route.startsWith("RAG_") && second.route.startsWith("RAG_"));
+
+  return { route: top.route, confidence: top.confidence, ranked, ambiguous };
+}
+
+export function triage(q: string, modeHint?: string): Route {
+  return classify(q, modeHint).route;
+}
 
-  return "RAG_GENERAL";
+function round(x: number, d = 2) {
+  const p = 10 ** d;
+  return Math.round(x * p) / p;
 }
@@ -102,7 +102,7 @@ export default function AdminPage() {
             className="input"
             value={docType}
             onChange={(e) => setDocType(e.target.value)}
-            placeholder="doc_type (law/regulation/guideline)"
+            placeholder="doc_type (law_pdf/regulation_pdf/guidance_pdf/utility_guideline/catalog_pdf)"
           />
           <button className="btn" onClick={addSource} disabled={loading}>
             {loading ? "מוסיף..." : "הוסף מקור"}
@@ -1,7 +1,24 @@
 import type { ChatState } from "./chat";
+import type { Route } from "../lib/triage";
+import type { ValidationError } from "../lib/calculators/quantity";
+import type { ScopeMode } from "../lib/sourceTypes";
 
 export type SourceRef = { title: string; section: string; url?: string };
 
+export type ComplianceVerdict = "compliant" | "non_compliant" | "needs_data";
+
+// One result compared against one regulatory limit, with the section that sets it.
+export type ComplianceCheck = {
+  label: string;
+  verdict: ComplianceVerdict;
+  actual?: string; // formatted with its unit; absent when the input did not allow the check
+  limit: string;
+  source: SourceRef;
+};
+
+// The retrieved chunk behind one statement of a RAG answer: an index into the answer's sources.
+export type SupportLink = { source: number; excerpt: string };
+
 export type Answer = {
   kind: "calc" | "flow" | "rag";
   title: string;
@@ -10,9 +27,17 @@ export type Answer = {
   values?: Record<string, number | string>;
   assumptions?: string[];
   requiredInfo?: string[];
+  errors?: ValidationError[]; // structured input problems behind requiredInfo
   followUpQuestion?: string;
   cautions?: string[];
   sources?: SourceRef[];
+  compliance?: { verdict: ComplianceVerdict; checks: ComplianceCheck[] };
+  scope?: ScopeMode; // the source scope a RAG answer was searched in
+  widerScope?: ScopeMode; // offered when that scope found nothing and this one would
+  support?: { bottomLine: SupportLink | null; steps: (SupportLink | null)[] }; // null: no retrieved chunk backs it
   confidence: "high" | "medium" | "low";
   chatState?: ChatState;
+  route?: Route;
+  choices?: { route: Route; label: string }[]; // close alternatives the user can pick from
+  attachment?: { filename: string; mimeType: string; content: string }; // downloadable export, e.g. a CSV schedule
 };
@@ -1,9 +1,16 @@
+import type { FlowPosition } from "../lib/flows/tree";
+
 export type ChatTopic =
   | "loop_fault"
   | "earthing"
   | "rcd"
   | "cable"
   | "vdrop"
+  | "no_power"
+  | "mcb_trip"
+  | "overheat"
+  | "earth_fault"
+  | "phase_id"
   | "general";
 
 export type ChatStage = "collecting" | "answering" | "done";
@@ -28,6 +35,7 @@ export type ChatState = {
     protection?: string; // e.g. "C16"
     voltage?: 230 | 400;
   };
+  flow?: FlowPosition; // position in a diagnostic decision tree (see lib/flows/tree)
   pendingQuestion?: string;
   lastSummary?: string;
   lastUserQuestion?: string; // Last actual question (not command) to maintain context